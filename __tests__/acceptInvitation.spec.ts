@@ -19,7 +19,7 @@ describe('Vortex.acceptInvitation', () => {
     const result = await vortex.acceptInvitation('inv-123', user);
 
     expect(acceptInvitationsSpy).toHaveBeenCalledTimes(1);
-    expect(acceptInvitationsSpy).toHaveBeenCalledWith(['inv-123'], user);
+    expect(acceptInvitationsSpy).toHaveBeenCalledWith(['inv-123'], user, undefined);
     expect(result).toBe(mockResult);
   });
 
@@ -32,6 +32,6 @@ describe('Vortex.acceptInvitation', () => {
     const user = { phone: '+18005551234' };
     await vortex.acceptInvitation('inv-456', user);
 
-    expect(acceptInvitationsSpy).toHaveBeenCalledWith(['inv-456'], user);
+    expect(acceptInvitationsSpy).toHaveBeenCalledWith(['inv-456'], user, undefined);
   });
 });
@@ -0,0 +1,102 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { Vortex } from '../src/vortex';
+import {
+  VortexApiError,
+  VortexAuthenticationError,
+  VortexNotFoundError,
+  VortexRateLimitError,
+  VortexServerError,
+  VortexValidationError,
+} from '../src/errors';
+
+describe('Vortex API errors', () => {
+  let vortex: Vortex;
+  let fetchSpy: jest.SpiedFunction<typeof global.fetch>;
+
+  function respondWith(status: number, body: string, headers: Record<string, string> = {}) {
+    fetchSpy.mockResolvedValue(new Response(body, { status, headers }));
+  }
+
+  beforeEach(() => {
+    vortex = new Vortex('VRTX.dGVzdGlk.dGVzdGtleQ');
+    fetchSpy = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  it('throws VortexNotFoundError with request details on 404', async () => {
+    respondWith(404, JSON.stringify({ error: 'Invitation not found' }), {
+      'content-type': 'application/json',
+      'x-request-id': 'req_123',
+    });
+
+    const err = await vortex.getInvitation('inv-missing').catch((e) => e);
+
+    expect(err).toBeInstanceOf(VortexNotFoundError);
+    expect(err).toBeInstanceOf(VortexApiError);
+    expect(err.status).toBe(404);
+    expect(err.body).toEqual({ error: 'Invitation not found' });
+    expect(err.method).toBe('GET');
+    expect(err.path).toBe('/api/v1/invitations/inv-missing');
+    expect(err.requestId).toBe('req_123');
+    expect(err.message).toContain('Vortex API request failed: 404');
+  });
+
+  it('throws VortexAuthenticationError on 401 and 403', async () => {
+    respondWith(401, 'Unauthorized');
+    await expect(vortex.revokeInvitation('inv-1')).rejects.toBeInstanceOf(
+      VortexAuthenticationError
+    );
+
+    respondWith(403, 'Forbidden');
+    await expect(vortex.revokeInvitation('inv-1')).rejects.toBeInstanceOf(
+      VortexAuthenticationError
+    );
+  });
+
+  it('throws VortexValidationError on 400 and keeps non-JSON bodies as text', async () => {
+    respondWith(400, 'bad request');
+
+    const err = await vortex
+      .acceptInvitations(['inv-1'], { email: 'user@example.com' })
+      .catch((e) => e);
+
+    expect(err).toBeInstanceOf(VortexValidationError);
+    expect(err.body).toBe('bad request');
+    expect(err.method).toBe('POST');
+    expect(err.requestId).toBeNull();
+  });
+
+  it('throws VortexRateLimitError with retryAfter on 429', async () => {
+    respondWith(429, '', { 'retry-after': '7' });
+
+    const err = await vortex.getInvitationsByScope('team', 'team-1').catch((e) => e);
+
+    expect(err).toBeInstanceOf(VortexRateLimitError);
+    expect(err.retryAfter).toBe(7);
+  });
+
+  it('throws VortexServerError on 5xx', async () => {
+    respondWith(503, 'Service Unavailable');
+
+    await expect(
+      vortex.configureAutojoin({
+        scope: 'acme',
+        scopeType: 'organization',
+        domains: ['acme.com'],
+        componentId: 'component-1',
+      })
+    ).rejects.toBeInstanceOf(VortexServerError);
+  });
+
+  it('falls back to VortexApiError for other statuses', async () => {
+    respondWith(418, "I'm a teapot");
+
+    const err = await vortex.reinvite('inv-1').catch((e) => e);
+
+    expect(err.constructor).toBe(VortexApiError);
+    expect(err.status).toBe(418);
+  });
+});
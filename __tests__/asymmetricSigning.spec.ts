@@ -0,0 +1,158 @@
+import crypto from 'node:crypto';
+import { describe, it, expect } from '@jest/globals';
+import { Vortex } from '../src/vortex';
+import { VortexTokenError } from '../src/errors';
+
+const TEST_API_KEY = 'VRTX.AAAAAAAAQACAAAAAAAAAAQ.test-secret-key-for-signing';
+
+const ecKeys = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const edKeys = crypto.generateKeyPairSync('ed25519');
+
+function pem(key: crypto.KeyObject): string {
+  return key.export({ format: 'pem', type: key.type === 'private' ? 'pkcs8' : 'spki' }).toString();
+}
+
+function decodeHeader(token: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString());
+}
+
+function expectTokenError(fn: () => unknown, code: string) {
+  try {
+    fn();
+  } catch (err) {
+    expect(err).toBeInstanceOf(VortexTokenError);
+    expect((err as VortexTokenError).code).toBe(code);
+    return;
+  }
+  throw new Error(`Expected VortexTokenError with code "${code}"`);
+}
+
+describe('asymmetric token signing', () => {
+  it.each([
+    ['ES256', ecKeys.privateKey],
+    ['EdDSA', edKeys.privateKey],
+  ])('signs and verifies %s tokens', (alg, privateKey) => {
+    const vortex = new Vortex({
+      apiKey: TEST_API_KEY,
+      signingKey: { key: pem(privateKey), kid: 'tokens-1' },
+    });
+
+    const token = vortex.generateToken({ user: { id: 'user-1' } });
+    const jwt = vortex.generateJwt({ user: { id: 'user-1', email: 'user@example.com' } });
+
+    expect(decodeHeader(token)).toEqual({ alg, typ: 'JWT', kid: 'tokens-1' });
+    expect(decodeHeader(jwt)).toMatchObject({ alg, kid: 'tokens-1' });
+    expect(vortex.verifyToken(token).user).toEqual({ id: 'user-1' });
+    expect(vortex.verifyToken(jwt).userId).toBe('user-1');
+  });
+
+  it('produces tokens verifiable with the published JWKS alone', () => {
+    const vortex = new Vortex({ apiKey: TEST_API_KEY, signingKey: { key: ecKeys.privateKey } });
+    const token = vortex.generateToken({ user: { id: 'user-1' } });
+    const [jwk] = vortex.getJwks().keys;
+
+    const [headerB64, payloadB64, signatureB64] = token.split('.');
+    const publicKey = crypto.createPublicKey({ key: jwk as crypto.JsonWebKey, format: 'jwk' });
+    const valid = crypto.verify(
+      'sha256',
+      Buffer.from(`${headerB64}.${payloadB64}`),
+      { key: publicKey, dsaEncoding: 'ieee-p1363' },
+      Buffer.from(signatureB64, 'base64url')
+    );
+
+    expect(valid).toBe(true);
+    expect(jwk).toMatchObject({ kty: 'EC', crv: 'P-256', alg: 'ES256', use: 'sig' });
+    expect(decodeHeader(token).kid).toBe(jwk.kid);
+  });
+
+  it('defaults the kid to the JWK thumbprint', () => {
+    const jwk = edKeys.publicKey.export({ format: 'jwk' });
+    const thumbprint = crypto
+      .createHash('sha256')
+      .update(JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x }))
+      .digest('base64url');
+    const vortex = new Vortex({ apiKey: TEST_API_KEY, signingKey: { key: edKeys.privateKey } });
+
+    expect(vortex.getJwks().keys[0].kid).toBe(thumbprint);
+  });
+
+  it('verifies tokens from a rotated-out key kept as a public key', () => {
+    const before = new Vortex({
+      apiKey: TEST_API_KEY,
+      signingKey: { key: edKeys.privateKey, kid: 'old' },
+    });
+    const after = new Vortex({
+      apiKey: TEST_API_KEY,
+      signingKey: [
+        { key: ecKeys.privateKey, kid: 'new' },
+        { key: pem(edKeys.publicKey), kid: 'old' },
+      ],
+    });
+    const token = before.generateToken({ user: { id: 'user-1' } });
+
+    expect(after.verifyToken(token).user).toEqual({ id: 'user-1' });
+    expect(decodeHeader(after.generateToken({ user: { id: 'user-1' } })).kid).toBe('new');
+    expect(after.getJwks().keys.map((key) => key.kid)).toEqual(['new', 'old']);
+  });
+
+  it('still verifies HS256 tokens from the API key', () => {
+    const token = new Vortex(TEST_API_KEY).generateToken({ user: { id: 'user-1' } });
+    const vortex = new Vortex({ apiKey: TEST_API_KEY, signingKey: { key: ecKeys.privateKey } });
+
+    expect(vortex.verifyToken(token).user).toEqual({ id: 'user-1' });
+  });
+
+  it('rejects a token whose alg does not match the key', () => {
+    const vortex = new Vortex({
+      apiKey: TEST_API_KEY,
+      signingKey: { key: ecKeys.privateKey, kid: 'tokens-1' },
+    });
+    const [, payloadB64, signatureB64] = vortex.generateToken({ user: { id: 'user-1' } }).split('.');
+    const header = Buffer.from(JSON.stringify({ alg: 'EdDSA', typ: 'JWT', kid: 'tokens-1' })).toString(
+      'base64url'
+    );
+
+    expectTokenError(
+      () => vortex.verifyToken(`${header}.${payloadB64}.${signatureB64}`),
+      'unsupported_algorithm'
+    );
+  });
+
+  it('rejects tokens signed by another key', () => {
+    const other = new Vortex({
+      apiKey: TEST_API_KEY,
+      signingKey: { key: crypto.generateKeyPairSync('ed25519').privateKey, kid: 'tokens-1' },
+    });
+    const vortex = new Vortex({
+      apiKey: TEST_API_KEY,
+      signingKey: { key: edKeys.privateKey, kid: 'tokens-1' },
+    });
+
+    expectTokenError(
+      () => vortex.verifyToken(other.generateToken({ user: { id: 'user-1' } })),
+      'invalid_signature'
+    );
+  });
+
+  it('requires the first signing key to be private', () => {
+    expect(
+      () => new Vortex({ apiKey: TEST_API_KEY, signingKey: { key: pem(ecKeys.publicKey) } })
+    ).toThrow('must be a private key');
+  });
+
+  it('rejects unsupported key types', () => {
+    const rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 1024 });
+    const secp384 = crypto.generateKeyPairSync('ec', { namedCurve: 'P-384' });
+
+    expect(() => new Vortex({ apiKey: TEST_API_KEY, signingKey: { key: rsa.privateKey } })).toThrow(
+      'Unsupported signingKey type'
+    );
+    expect(
+      () => new Vortex({ apiKey: TEST_API_KEY, signingKey: { key: secp384.privateKey } })
+    ).toThrow('Unsupported signingKey type');
+  });
+
+  it('getJwks requires a signing key', () => {
+    expect(() => new Vortex(TEST_API_KEY).getJwks()).toThrow('requires an asymmetric signingKey');
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { Vortex } from '../src/vortex';
+
+const TEST_API_KEY = 'VRTX.dGVzdGlk.dGVzdGtleQ';
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+function mockFetch() {
+  return jest.fn<typeof fetch>().mockImplementation(async () => jsonResponse({}));
+}
+
+describe('Vortex client options', () => {
+  const savedBaseUrl = process.env.VORTEX_API_BASE_URL;
+
+  afterEach(() => {
+    if (savedBaseUrl !== undefined) {
+      process.env.VORTEX_API_BASE_URL = savedBaseUrl;
+    } else {
+      delete process.env.VORTEX_API_BASE_URL;
+    }
+  });
+
+  it('uses the custom fetch implementation and base URL', async () => {
+    const fetchImpl = mockFetch();
+    const vortex = new Vortex({
+      apiKey: TEST_API_KEY,
+      baseUrl: 'https://api.staging.example.com/',
+      fetch: fetchImpl,
+    });
+
+    await vortex.getInvitation('inv-123');
+
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    expect(fetchImpl.mock.calls[0][0]).toBe(
+      'https://api.staging.example.com/api/v1/invitations/inv-123'
+    );
+  });
+
+  it('lets two clients target different environments in one process', async () => {
+    const fetchA = mockFetch();
+    const fetchB = mockFetch();
+    const a = new Vortex({ apiKey: TEST_API_KEY, baseUrl: 'https://a.example.com', fetch: fetchA });
+    const b = new Vortex({ apiKey: TEST_API_KEY, baseUrl: 'https://b.example.com', fetch: fetchB });
+
+    await a.revokeInvitation('inv-1');
+    await b.revokeInvitation('inv-1');
+
+    expect(fetchA.mock.calls[0][0]).toBe('https://a.example.com/api/v1/invitations/inv-1');
+    expect(fetchB.mock.calls[0][0]).toBe('https://b.example.com/api/v1/invitations/inv-1');
+  });
+
+  it('reads VORTEX_API_BASE_URL once at construction when baseUrl is not set', async () => {
+    process.env.VORTEX_API_BASE_URL = 'https://env.example.com';
+    const fetchImpl = mockFetch();
+    const vortex = new Vortex({ apiKey: TEST_API_KEY, fetch: fetchImpl });
+    process.env.VORTEX_API_BASE_URL = 'https://changed.example.com';
+
+    await vortex.getInvitation('inv-123');
+
+    expect(fetchImpl.mock.calls[0][0]).toBe('https://env.example.com/api/v1/invitations/inv-123');
+  });
+
+  it('sends default headers without overriding SDK headers', async () => {
+    const fetchImpl = mockFetch();
+    const vortex = new Vortex({
+      apiKey: TEST_API_KEY,
+      fetch: fetchImpl,
+      headers: { 'x-tenant': 'acme', 'x-api-key': 'should-not-win' },
+    });
+
+    await vortex.getInvitation('inv-123');
+
+    const headers = (fetchImpl.mock.calls[0][1] as RequestInit).headers as Record<string, string>;
+    expect(headers['x-tenant']).toBe('acme');
+    expect(headers['x-api-key']).toBe(TEST_API_KEY);
+  });
+
+  it('appends the user-agent suffix', async () => {
+    const fetchImpl = mockFetch();
+    const vortex = new Vortex({
+      apiKey: TEST_API_KEY,
+      fetch: fetchImpl,
+      userAgentSuffix: 'billing-service/2.1.0',
+    });
+
+    await vortex.getInvitation('inv-123');
+
+    const headers = (fetchImpl.mock.calls[0][1] as RequestInit).headers as Record<string, string>;
+    expect(headers['user-agent']).toMatch(/^vortex-node-sdk\/\S+ billing-service\/2\.1\.0$/);
+  });
+
+  it('passes an abort signal when timeoutMs is set', async () => {
+    const fetchImpl = mockFetch();
+    const vortex = new Vortex({ apiKey: TEST_API_KEY, fetch: fetchImpl, timeoutMs: 5000 });
+
+    await vortex.getInvitation('inv-123');
+
+    expect((fetchImpl.mock.calls[0][1] as RequestInit).signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('rejects a non-positive timeoutMs', () => {
+    expect(() => new Vortex({ apiKey: TEST_API_KEY, timeoutMs: 0 })).toThrow('Invalid timeoutMs');
+  });
+
+  it('keeps the plain-string constructor working', () => {
+    const vortex = new Vortex(TEST_API_KEY);
+    expect(vortex).toBeInstanceOf(Vortex);
+  });
+});
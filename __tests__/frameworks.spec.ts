@@ -0,0 +1,220 @@
+import crypto from 'node:crypto';
+import { Readable } from 'node:stream';
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  VortexWebhookEvent,
+  VortexWebhookPayloadError,
+  VortexWebhookSignatureError,
+  WebhookHandlers,
+} from '../src';
+import { createExpressWebhookHandler } from '../src/frameworks/express';
+import { vortexWebhooksPlugin, FastifyWebhookRequest, FastifyWebhookReply } from '../src/frameworks/fastify';
+import { createNextWebhookHandler } from '../src/frameworks/nextjs';
+
+const TEST_SECRET = 'whsec_test_secret_key_1234567890';
+
+const event: VortexWebhookEvent = {
+  id: 'evt_123',
+  type: 'invitation.accepted',
+  timestamp: '2026-02-25T12:00:00Z',
+  accountId: 'acc_456',
+  environmentId: 'env_789',
+  sourceTable: 'invitations',
+  operation: 'update',
+  data: { invitationId: 'inv_abc' },
+};
+const payload = JSON.stringify(event);
+
+function sign(body: string, secret: string = TEST_SECRET): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+function expressRequest(body: string, headers: Record<string, string>, parsedBody?: unknown) {
+  return Object.assign(Readable.from([Buffer.from(body)]), { headers, body: parsedBody });
+}
+
+function expressResponse() {
+  const res = {
+    statusCode: 0,
+    sent: undefined as unknown,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.sent = body;
+      return res;
+    },
+  };
+  return res;
+}
+
+describe('createExpressWebhookHandler()', () => {
+  it('reads the raw body from the stream and dispatches the event', async () => {
+    const onAccepted = jest.fn<(e: VortexWebhookEvent) => void>();
+    const handler = createExpressWebhookHandler({
+      secret: TEST_SECRET,
+      on: { 'invitation.accepted': onAccepted },
+    });
+    const res = expressResponse();
+
+    await handler(expressRequest(payload, { 'x-vortex-signature': sign(payload) }), res);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.sent).toEqual({ received: true });
+    expect(onAccepted).toHaveBeenCalledWith(event);
+  });
+
+  it('uses a Buffer body from express.raw()', async () => {
+    const handler = createExpressWebhookHandler({ secret: TEST_SECRET });
+    const res = expressResponse();
+
+    await handler(
+      expressRequest('', { 'x-vortex-signature': sign(payload) }, Buffer.from(payload)),
+      res
+    );
+
+    expect(res.statusCode).toBe(200);
+  });
+
+  it('responds 400 when a JSON body parser already consumed the body', async () => {
+    const onError = jest.fn();
+    const handler = createExpressWebhookHandler({ secret: TEST_SECRET, onError });
+    const res = expressResponse();
+
+    await handler(expressRequest('', { 'x-vortex-signature': sign(payload) }, event), res);
+
+    expect(res.statusCode).toBe(400);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('responds 400 on an invalid signature', async () => {
+    const onError = jest.fn<(error: Error) => void>();
+    const handler = createExpressWebhookHandler({ secret: TEST_SECRET, onError });
+    const res = expressResponse();
+
+    await handler(expressRequest(payload, { 'x-vortex-signature': sign(payload, 'wrong') }), res);
+
+    expect(res.statusCode).toBe(400);
+    // The error class users import from the package root, not a bundled copy
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(VortexWebhookSignatureError);
+  });
+
+  it('responds 500 when a handler throws', async () => {
+    const onError = jest.fn();
+    const handler = createExpressWebhookHandler({
+      secret: TEST_SECRET,
+      onEvent: async () => {
+        throw new Error('db down');
+      },
+      onError,
+    });
+    const res = expressResponse();
+
+    await handler(expressRequest(payload, { 'x-vortex-signature': sign(payload) }), res);
+
+    expect(res.statusCode).toBe(500);
+    expect(onError).toHaveBeenCalledWith(new Error('db down'));
+  });
+});
+
+describe('vortexWebhooksPlugin()', () => {
+  async function register(options: WebhookHandlers & { path?: string }) {
+    const routes: Record<
+      string,
+      (request: FastifyWebhookRequest, reply: FastifyWebhookReply) => Promise<unknown>
+    > = {};
+    let parser: ((body: Buffer) => unknown) | undefined;
+    await vortexWebhooksPlugin(
+      {
+        addContentTypeParser(contentType, _opts, fn) {
+          expect(contentType).toBe('application/json');
+          parser = (body) => {
+            let parsed: unknown;
+            fn({}, body, (_err, result) => (parsed = result));
+            return parsed;
+          };
+        },
+        post(path, handler) {
+          routes[path] = handler;
+        },
+      },
+      { secret: TEST_SECRET, ...options }
+    );
+    return { routes, parse: parser! };
+  }
+
+  function reply() {
+    const r = {
+      statusCode: 0,
+      code(statusCode: number) {
+        r.statusCode = statusCode;
+        return r;
+      },
+      send: jest.fn(),
+    };
+    return r;
+  }
+
+  it('registers a route that receives the raw Buffer body', async () => {
+    const onEvent = jest.fn<(e: VortexWebhookEvent) => void>();
+    const { routes, parse } = await register({ onEvent });
+    const r = reply();
+
+    await routes['/webhooks/vortex'](
+      { headers: { 'x-vortex-signature': sign(payload) }, body: parse(Buffer.from(payload)) },
+      r
+    );
+
+    expect(r.statusCode).toBe(200);
+    expect(onEvent).toHaveBeenCalledWith(event);
+  });
+
+  it('honors a custom path and rejects bad signatures', async () => {
+    const { routes, parse } = await register({ path: '/hooks' });
+    const r = reply();
+
+    await routes['/hooks']({ headers: {}, body: parse(Buffer.from(payload)) }, r);
+
+    expect(r.statusCode).toBe(400);
+  });
+});
+
+describe('createNextWebhookHandler()', () => {
+  function request(body: string, signature: string) {
+    return new Request('https://example.com/api/webhooks/vortex', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-vortex-signature': signature },
+      body,
+    });
+  }
+
+  it('returns 200 after dispatching the event', async () => {
+    const onEvent = jest.fn<(e: VortexWebhookEvent) => void>();
+    const POST = createNextWebhookHandler({ secret: TEST_SECRET, onEvent });
+
+    const response = await POST(request(payload, sign(payload)));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true });
+    expect(onEvent).toHaveBeenCalledWith(event);
+  });
+
+  it('returns 400 for invalid signatures and malformed JSON', async () => {
+    const POST = createNextWebhookHandler({ secret: TEST_SECRET });
+
+    expect((await POST(request(payload, 'bad'))).status).toBe(400);
+    expect((await POST(request('{not json', sign('{not json')))).status).toBe(400);
+  });
+
+  it('returns 400 and reports payloads that fail validation', async () => {
+    const onError = jest.fn<(error: Error) => void>();
+    const onEvent = jest.fn<(e: VortexWebhookEvent) => void>();
+    const POST = createNextWebhookHandler({ secret: TEST_SECRET, validate: true, onEvent, onError });
+    const invalid = JSON.stringify({ ...event, data: {} });
+
+    expect((await POST(request(invalid, sign(invalid)))).status).toBe(400);
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(VortexWebhookPayloadError);
+    expect(onEvent).not.toHaveBeenCalled();
+  });
+});
@@ -107,4 +107,22 @@ describe('Vortex.generateJwt()', () => {
       expect(jwt.split('.')).toHaveLength(3);
     });
   });
+
+  describe('standard claims', () => {
+    it('adds the same claims as generateToken', () => {
+      const jwt = vortex.generateJwt(
+        { user: { id: 'user-1', email: 'test@example.com' } },
+        { audience: 'widget-backend', issuer: 'acme-api', jti: 'token-123' }
+      );
+      const payload = JSON.parse(Buffer.from(jwt.split('.')[1], 'base64url').toString());
+
+      expect(payload).toMatchObject({
+        aud: 'widget-backend',
+        iss: 'acme-api',
+        sub: 'user-1',
+        jti: 'token-123',
+      });
+      expect(vortex.verifyToken(jwt, { audience: 'widget-backend' }).jti).toBe('token-123');
+    });
+  });
 });
@@ -148,6 +148,107 @@ describe('Vortex.generateToken()', () => {
         vortex.generateToken({ user: { id: 'user-1' } }, { expiresIn: -60 });
       }).toThrow('Numeric expiresIn must be a positive integer');
     });
+
+    it.each([
+      ['90s', 90],
+      ['2w', 2 * 7 * 24 * 60 * 60],
+      ['1h30m', 90 * 60],
+      ['1d12h', 36 * 60 * 60],
+      ['PT15M', 15 * 60],
+      ['PT1H30M15S', 60 * 60 + 30 * 60 + 15],
+      ['P1DT12H', 36 * 60 * 60],
+      ['P2W', 2 * 7 * 24 * 60 * 60],
+    ])('should accept the duration "%s"', (expiresIn, seconds) => {
+      const token = vortex.generateToken({ user: { id: 'user-1' } }, { expiresIn });
+      const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+
+      expect(payload.exp).toBe(payload.iat + seconds);
+    });
+
+    it.each(['30m1h', '1h 30m', 'P', 'PT', 'P1M', 'P1Y', 'PT1.5H', 'pt15m'])(
+      'should reject the duration "%s"',
+      (expiresIn) => {
+        expect(() => vortex.generateToken({ user: { id: 'user-1' } }, { expiresIn })).toThrow(
+          'Invalid expiresIn format'
+        );
+      }
+    );
+
+    it('should throw on zero compound and ISO-8601 durations', () => {
+      expect(() => vortex.generateToken({ user: { id: 'user-1' } }, { expiresIn: '0h0m' })).toThrow(
+        'Duration must be positive'
+      );
+      expect(() => vortex.generateToken({ user: { id: 'user-1' } }, { expiresIn: 'PT0S' })).toThrow(
+        'Duration must be positive'
+      );
+    });
+  });
+
+  describe('absolute expiration', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should accept expiresAt as a Date or Unix timestamp in seconds', () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const expiresAt = new Date('2026-01-02T00:00:00Z');
+
+      for (const value of [expiresAt, expiresAt.getTime() / 1000]) {
+        const token = vortex.generateToken({ user: { id: 'user-1' } }, { expiresAt: value });
+        const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+        expect(payload.exp).toBe(expiresAt.getTime() / 1000);
+      }
+    });
+
+    it('should reject expiresAt in the past, invalid dates, and combining it with expiresIn', () => {
+      expect(() =>
+        vortex.generateToken({ user: { id: 'user-1' } }, { expiresAt: new Date(Date.now() - 1000) })
+      ).toThrow('is not in the future');
+      expect(() =>
+        vortex.generateToken({ user: { id: 'user-1' } }, { expiresAt: new Date('not a date') })
+      ).toThrow('Invalid expiresAt value');
+      expect(() =>
+        vortex.generateToken(
+          { user: { id: 'user-1' } },
+          { expiresIn: '1h', expiresAt: new Date(Date.now() + 60_000) }
+        )
+      ).toThrow('Pass either expiresIn or expiresAt, not both');
+    });
+  });
+
+  describe('maximum lifetime', () => {
+    it('should reject tokens longer than one year by default', () => {
+      expect(() =>
+        vortex.generateToken({ user: { id: 'user-1' } }, { expiresIn: '3650d' })
+      ).toThrow('exceeds maxTokenLifetime');
+      expect(() =>
+        vortex.generateToken(
+          { user: { id: 'user-1' } },
+          { expiresAt: new Date(Date.now() + 2 * 365 * 24 * 60 * 60 * 1000) }
+        )
+      ).toThrow('exceeds maxTokenLifetime');
+      expect(() => vortex.generateToken({ user: { id: 'user-1' } }, { expiresIn: '365d' })).not.toThrow();
+    });
+
+    it('should honor a configured maxTokenLifetime', () => {
+      const strict = new Vortex({ apiKey: testApiKey, maxTokenLifetime: 'PT1H' });
+
+      expect(() => strict.generateToken({ user: { id: 'user-1' } })).toThrow(
+        'Token lifetime of 2592000 seconds exceeds maxTokenLifetime (3600 seconds)'
+      );
+      expect(() => strict.generateJwt({ user: { id: 'user-1' } }, { expiresIn: '2h' })).toThrow(
+        'exceeds maxTokenLifetime'
+      );
+      expect(() =>
+        strict.generateToken({ user: { id: 'user-1' } }, { expiresIn: '1h' })
+      ).not.toThrow();
+    });
+
+    it('should reject an invalid maxTokenLifetime', () => {
+      expect(() => new Vortex({ apiKey: testApiKey, maxTokenLifetime: '1 year' })).toThrow(
+        'Invalid maxTokenLifetime format'
+      );
+    });
   });
 
   describe('user.id warning', () => {
@@ -288,4 +389,55 @@ describe('Vortex.generateToken()', () => {
       );
     });
   });
+
+  describe('standard claims', () => {
+    function decodePayload(token: string) {
+      return JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+    }
+
+    it('defaults sub to the user ID', () => {
+      expect(decodePayload(vortex.generateToken({ user: { id: 'user-1' } })).sub).toBe('user-1');
+      expect(decodePayload(vortex.generateToken({ user: { id: 42 as any } })).sub).toBe('42');
+      expect(decodePayload(vortex.generateToken({ component: 'widget-1' }))).not.toHaveProperty(
+        'sub'
+      );
+    });
+
+    it('sets aud, iss, sub, nbf and jti from options', () => {
+      const payload = decodePayload(
+        vortex.generateToken(
+          { user: { id: 'user-1' } },
+          {
+            audience: ['widget-backend', 'billing'],
+            issuer: 'acme-api',
+            subject: 'service-account',
+            notBefore: '5m',
+            jti: 'token-123',
+          }
+        )
+      );
+
+      expect(payload).toMatchObject({
+        aud: ['widget-backend', 'billing'],
+        iss: 'acme-api',
+        sub: 'service-account',
+        nbf: payload.iat + 300,
+        jti: 'token-123',
+      });
+    });
+
+    it('generates a random jti when jti is true', () => {
+      const first = decodePayload(vortex.generateToken({ user: { id: 'user-1' } }, { jti: true }));
+      const second = decodePayload(vortex.generateToken({ user: { id: 'user-1' } }, { jti: true }));
+
+      expect(first.jti).toMatch(/^[0-9a-f-]{36}$/);
+      expect(first.jti).not.toBe(second.jti);
+    });
+
+    it('rejects an invalid notBefore', () => {
+      expect(() =>
+        vortex.generateToken({ user: { id: 'user-1' } }, { notBefore: 'soon' })
+      ).toThrow('Invalid notBefore format');
+    });
+  });
 });
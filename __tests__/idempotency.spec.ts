@@ -0,0 +1,90 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { Vortex } from '../src/vortex';
+
+const TEST_API_KEY = 'VRTX.dGVzdGlk.dGVzdGtleQ';
+
+const createParams = {
+  widgetConfigurationId: 'widget-config-123',
+  target: { type: 'email' as const, value: 'invitee@example.com' },
+  inviter: { userId: 'user-456' },
+  scopeId: 'team-789',
+  scopeType: 'team',
+  scopeName: 'Engineering',
+};
+
+describe('Vortex idempotency keys', () => {
+  let fetchImpl: jest.Mock<typeof fetch>;
+  let vortex: Vortex;
+
+  function sentHeaders(call = 0): Record<string, string> {
+    return (fetchImpl.mock.calls[call][1] as RequestInit).headers as Record<string, string>;
+  }
+
+  beforeEach(() => {
+    fetchImpl = jest.fn<typeof fetch>().mockImplementation(
+      async () =>
+        new Response(JSON.stringify({ id: 'inv-1' }), {
+          status: 200,
+          headers: { 'content-type': 'application/json' },
+        })
+    );
+    vortex = new Vortex({ apiKey: TEST_API_KEY, fetch: fetchImpl });
+  });
+
+  it('does not send an Idempotency-Key header by default', async () => {
+    await vortex.createInvitation(createParams);
+    expect(sentHeaders()['Idempotency-Key']).toBeUndefined();
+  });
+
+  it('sends an explicit idempotency key on createInvitation', async () => {
+    await vortex.createInvitation(createParams, { idempotencyKey: 'invite-abc' });
+    expect(sentHeaders()['Idempotency-Key']).toBe('invite-abc');
+  });
+
+  it('derives the same key for the same canonical body regardless of key order', async () => {
+    await vortex.syncInternalInvitation(
+      { creatorId: 'u1', targetValue: 'u2', action: 'accepted', componentId: 'c1' },
+      { deriveIdempotencyKey: true }
+    );
+    await vortex.syncInternalInvitation(
+      { componentId: 'c1', action: 'accepted', targetValue: 'u2', creatorId: 'u1' },
+      { deriveIdempotencyKey: true }
+    );
+
+    const first = sentHeaders(0)['Idempotency-Key'];
+    expect(first).toMatch(/^[0-9a-f]{64}$/);
+    expect(sentHeaders(1)['Idempotency-Key']).toBe(first);
+  });
+
+  it('derives different keys for different bodies', async () => {
+    await vortex.acceptInvitations(['inv-1'], { email: 'a@example.com' }, { deriveIdempotencyKey: true });
+    await vortex.acceptInvitations(['inv-1'], { email: 'b@example.com' }, { deriveIdempotencyKey: true });
+
+    expect(sentHeaders(0)['Idempotency-Key']).not.toBe(sentHeaders(1)['Idempotency-Key']);
+  });
+
+  it('prefers an explicit key over a derived one', async () => {
+    await vortex.acceptInvitation(
+      'inv-1',
+      { email: 'a@example.com' },
+      { idempotencyKey: 'accept-1', deriveIdempotencyKey: true }
+    );
+    expect(sentHeaders()['Idempotency-Key']).toBe('accept-1');
+  });
+
+  it('suffixes an explicit key per target for legacy target arrays', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await vortex.acceptInvitations(
+      ['inv-1'],
+      [
+        { type: 'email', value: 'a@example.com' },
+        { type: 'email', value: 'b@example.com' },
+      ],
+      { idempotencyKey: 'accept-1' }
+    );
+    warnSpy.mockRestore();
+
+    expect(sentHeaders(0)['Idempotency-Key']).toBe('accept-1-0');
+    expect(sentHeaders(1)['Idempotency-Key']).toBe('accept-1-1');
+  });
+});
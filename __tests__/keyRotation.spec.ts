@@ -0,0 +1,113 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { Vortex } from '../src/vortex';
+import { VortexAuthenticationError, VortexTokenError } from '../src/errors';
+
+// Two API keys with different kids: ...0001 (new) and ...0002 (old)
+const NEW_API_KEY = 'VRTX.AAAAAAAAQACAAAAAAAAAAQ.new-secret-key';
+const OLD_API_KEY = 'VRTX.AAAAAAAAQACAAAAAAAAAAg.old-secret-key';
+const UNKNOWN_API_KEY = 'VRTX.AAAAAAAAQACAAAAAAAAAAw.unknown-secret-key';
+
+function tokenKid(token: string): string {
+  return JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString()).kid;
+}
+
+describe('Vortex API key rotation', () => {
+  const vortex = new Vortex({ apiKey: NEW_API_KEY, secondaryApiKeys: [OLD_API_KEY] });
+  const oldClient = new Vortex(OLD_API_KEY);
+  const user = { id: 'user-1', email: 'user@example.com' };
+
+  describe('signing', () => {
+    it('signs with the primary key', () => {
+      expect(tokenKid(vortex.generateToken({ user }))).toBe('00000000-0000-4000-8000-000000000001');
+      expect(tokenKid(vortex.generateJwt({ user }))).toBe('00000000-0000-4000-8000-000000000001');
+      expect(vortex.sign(user).startsWith('00000000-0000-4000-8000-000000000001:')).toBe(true);
+    });
+  });
+
+  describe('verification', () => {
+    it('accepts tokens signed with a secondary key', () => {
+      const token = oldClient.generateToken({ user });
+      expect(vortex.verifyToken(token).user?.id).toBe('user-1');
+    });
+
+    it('accepts signatures made with a secondary key', () => {
+      const result = vortex.verifySignature(user, oldClient.sign(user));
+      expect(result).toEqual({ valid: true, kid: '00000000-0000-4000-8000-000000000002' });
+    });
+
+    it('rejects tokens from keys that are not configured', () => {
+      const token = new Vortex(UNKNOWN_API_KEY).generateToken({ user });
+      expect(() => vortex.verifyToken(token)).toThrow(VortexTokenError);
+    });
+
+    it('rejects tokens from a removed key once rotation is complete', () => {
+      const rotated = new Vortex(NEW_API_KEY);
+      expect(() => rotated.verifyToken(oldClient.generateToken({ user }))).toThrow(
+        'does not match any configured API key'
+      );
+    });
+
+    it('rejects a malformed secondary key at construction', () => {
+      expect(
+        () => new Vortex({ apiKey: NEW_API_KEY, secondaryApiKeys: [OLD_API_KEY, 'typo-key'] })
+      ).toThrow('Invalid secondaryApiKeys[1] format');
+    });
+  });
+
+  describe('API requests', () => {
+    function respond(status: number): Response {
+      return new Response(JSON.stringify(status === 200 ? { id: 'inv-1' } : { error: 'nope' }), {
+        status,
+        headers: { 'content-type': 'application/json' },
+      });
+    }
+
+    function sentApiKey(fetchImpl: jest.Mock<typeof fetch>, call: number): string {
+      return ((fetchImpl.mock.calls[call][1] as RequestInit).headers as Record<string, string>)[
+        'x-api-key'
+      ];
+    }
+
+    it('falls back to a secondary key on 401', async () => {
+      const fetchImpl = jest
+        .fn<typeof fetch>()
+        .mockResolvedValueOnce(respond(401))
+        .mockResolvedValueOnce(respond(200));
+      const client = new Vortex({
+        apiKey: NEW_API_KEY,
+        secondaryApiKeys: [OLD_API_KEY],
+        fetch: fetchImpl,
+      });
+
+      await expect(client.getInvitation('inv-1')).resolves.toMatchObject({ id: 'inv-1' });
+      expect(sentApiKey(fetchImpl, 0)).toBe(NEW_API_KEY);
+      expect(sentApiKey(fetchImpl, 1)).toBe(OLD_API_KEY);
+    });
+
+    it('throws the last 401 when every key is rejected', async () => {
+      const fetchImpl = jest.fn<typeof fetch>().mockImplementation(async () => respond(401));
+      const client = new Vortex({
+        apiKey: NEW_API_KEY,
+        secondaryApiKeys: [OLD_API_KEY],
+        fetch: fetchImpl,
+      });
+
+      await expect(client.revokeInvitation('inv-1')).rejects.toBeInstanceOf(
+        VortexAuthenticationError
+      );
+      expect(fetchImpl).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not fall back on other errors', async () => {
+      const fetchImpl = jest.fn<typeof fetch>().mockImplementation(async () => respond(403));
+      const client = new Vortex({
+        apiKey: NEW_API_KEY,
+        secondaryApiKeys: [OLD_API_KEY],
+        fetch: fetchImpl,
+      });
+
+      await expect(client.getInvitation('inv-1')).rejects.toBeInstanceOf(VortexAuthenticationError);
+      expect(fetchImpl).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { Vortex } from '../src/vortex';
+import { VortexWebhooks } from '../src/webhooks';
+import { VortexNotFoundError, VortexValidationError, VortexAuthenticationError } from '../src/errors';
+import { createMockVortexServer, MockVortexServer } from '../src/testing';
+
+const TEST_API_KEY = 'VRTX.dGVzdGlk.dGVzdGtleQ';
+const WEBHOOK_SECRET = 'whsec_mock_secret';
+
+const createParams = {
+  widgetConfigurationId: 'widget-config-123',
+  target: { type: 'email' as const, value: 'invitee@example.com' },
+  inviter: { userId: 'user-456' },
+  scopeId: 'team-1',
+  scopeType: 'team',
+  scopeName: 'Team One',
+};
+
+describe('createMockVortexServer()', () => {
+  let server: MockVortexServer;
+  let vortex: Vortex;
+
+  beforeAll(async () => {
+    server = await createMockVortexServer({ apiKey: TEST_API_KEY });
+    vortex = new Vortex({ apiKey: TEST_API_KEY, baseUrl: server.url });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('runs the create, get and accept flow over HTTP', async () => {
+    const created = await vortex.createInvitation(createParams);
+    expect(created.shortLink).toContain(created.id);
+
+    const invitation = await vortex.getInvitation(created.id);
+    expect(invitation.scopes[0].scopeId).toBe('team-1');
+    expect(invitation.target).toEqual([
+      expect.objectContaining({ type: 'email', value: 'invitee@example.com' }),
+    ]);
+
+    const accepted = await vortex.acceptInvitation(created.id, { email: 'invitee@example.com' });
+    expect(accepted.status).toBe('accepted');
+    expect(accepted.accepts).toHaveLength(1);
+  });
+
+  it('lists invitations by target and by scope, with pagination', async () => {
+    await vortex.createInvitation(createParams);
+    await vortex.createInvitation(createParams);
+    await vortex.createInvitation({ ...createParams, scopeId: 'team-2' });
+
+    const byTarget = await vortex.getInvitationsByTarget('email', 'invitee@example.com');
+    expect(byTarget).toHaveLength(3);
+
+    const ids: string[] = [];
+    for await (const invitation of vortex.iterateInvitationsByScope('team', 'team-1', {
+      pageSize: 1,
+    })) {
+      ids.push(invitation.id);
+    }
+    expect(ids).toHaveLength(2);
+  });
+
+  it('pages through invitations manually with the list methods', async () => {
+    const created = [];
+    for (let i = 0; i < 5; i++) {
+      created.push((await vortex.createInvitation(createParams)).id);
+    }
+
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    do {
+      const page = await vortex.listInvitationsByScope('team', 'team-1', { cursor, limit: 2 });
+      ids.push(...page.invitations.map((invitation) => invitation.id));
+      cursor = page.nextCursor ?? undefined;
+      pages++;
+    } while (cursor);
+
+    expect(ids).toEqual(created);
+    expect(pages).toBe(3);
+
+    const byTarget = await vortex.listInvitationsByTarget('email', 'invitee@example.com', {
+      limit: 4,
+    });
+    expect(byTarget.invitations).toHaveLength(4);
+    const byTargetRest = await vortex.listInvitationsByTarget('email', 'invitee@example.com', {
+      cursor: byTarget.nextCursor!,
+    });
+    expect(byTargetRest.invitations.map((invitation) => invitation.id)).toEqual([created[4]]);
+    expect(byTargetRest.nextCursor).toBeNull();
+
+    const byGroup = await vortex.listInvitationsByGroup('team', 'team-1', { limit: 5 });
+    expect(byGroup.invitations).toHaveLength(5);
+    expect(byGroup.nextCursor).toBeNull();
+  });
+
+  it('revokes invitations and deletes them by scope', async () => {
+    const first = await vortex.createInvitation(createParams);
+    const second = await vortex.createInvitation(createParams);
+
+    await vortex.revokeInvitation(first.id);
+    expect(server.invitations.get(first.id)?.deactivated).toBe(true);
+
+    await vortex.deleteInvitationsByScope('team', 'team-1');
+    expect(server.invitations.get(second.id)?.deactivated).toBe(true);
+
+    await expect(
+      vortex.acceptInvitation(second.id, { email: 'invitee@example.com' })
+    ).rejects.toBeInstanceOf(VortexValidationError);
+  });
+
+  it('increments the delivery count on reinvite', async () => {
+    const { id } = await vortex.createInvitation(createParams);
+    const invitation = await vortex.reinvite(id);
+    expect(invitation.deliveryCount).toBe(1);
+  });
+
+  it('configures and reads autojoin domains', async () => {
+    const configured = await vortex.configureAutojoin({
+      scope: 'acme-org',
+      scopeType: 'organization',
+      domains: ['acme.com', 'acme.org'],
+      componentId: 'component-123',
+    });
+    expect(configured.autojoinDomains.map((d) => d.domain)).toEqual(['acme.com', 'acme.org']);
+    expect(configured.invitation?.invitationType).toBe('autojoin');
+
+    const read = await vortex.getAutojoinDomains('organization', 'acme-org');
+    expect(read.autojoinDomains).toEqual(configured.autojoinDomains);
+
+    const cleared = await vortex.configureAutojoin({
+      scope: 'acme-org',
+      scopeType: 'organization',
+      domains: [],
+      componentId: 'component-123',
+    });
+    expect(cleared.invitation).toBeNull();
+  });
+
+  it('syncs internal invitations', async () => {
+    const { id } = await vortex.createInvitation({
+      ...createParams,
+      target: { type: 'internal', value: 'user-789' },
+    });
+
+    const result = await vortex.syncInternalInvitation({
+      creatorId: 'user-456',
+      targetValue: 'user-789',
+      action: 'accepted',
+      componentId: 'component-123',
+    });
+
+    expect(result).toEqual({ processed: 1, invitationIds: [id] });
+    expect(server.invitations.get(id)?.status).toBe('accepted');
+  });
+
+  it('validates request shapes', async () => {
+    await expect(
+      vortex.createInvitation({ ...createParams, inviter: {} as any })
+    ).rejects.toBeInstanceOf(VortexValidationError);
+    await expect(vortex.getInvitation('missing')).rejects.toBeInstanceOf(VortexNotFoundError);
+  });
+
+  it('rejects requests made with a different API key', async () => {
+    const other = new Vortex({ apiKey: 'VRTX.b3RoZXI.b3RoZXI', baseUrl: server.url });
+    await expect(other.getInvitation('inv-1')).rejects.toBeInstanceOf(VortexAuthenticationError);
+  });
+
+  it('serves requests in-process through its fetch adapter', async () => {
+    const inProcess = new Vortex({ apiKey: TEST_API_KEY, fetch: server.fetch });
+    const { id } = await inProcess.createInvitation(createParams);
+
+    expect((await vortex.getInvitation(id)).id).toBe(id);
+    expect(server.requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+      'POST /api/v1/invitations',
+      `GET /api/v1/invitations/${id}`,
+    ]);
+  });
+});
+
+describe('createMockVortexServer() webhooks', () => {
+  let receiver: http.Server;
+  let received: { body: string; signature: string }[];
+  let server: MockVortexServer;
+
+  beforeAll(async () => {
+    received = [];
+    receiver = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ body, signature: String(req.headers['x-vortex-signature']) });
+        res.writeHead(200).end();
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+    const { port } = receiver.address() as AddressInfo;
+
+    server = await createMockVortexServer();
+    server.registerWebhook({ url: `http://127.0.0.1:${port}/webhooks`, secret: WEBHOOK_SECRET });
+  });
+
+  afterAll(async () => {
+    await server.close();
+    await new Promise((resolve) => receiver.close(resolve));
+  });
+
+  it('delivers events that VortexWebhooks verifies', async () => {
+    const vortex = new Vortex({ apiKey: TEST_API_KEY, fetch: server.fetch });
+    const { id } = await vortex.createInvitation(createParams);
+    await vortex.acceptInvitation(id, { email: 'invitee@example.com' });
+
+    const webhooks = new VortexWebhooks({ secret: WEBHOOK_SECRET });
+    const events = received.map(({ body, signature }) => webhooks.constructEvent(body, signature));
+
+    expect(events.map((e) => ('type' in e ? e.type : e.name))).toEqual([
+      'invitation.created',
+      'invitation.accepted',
+    ]);
+    expect(server.webhookDeliveries.every((d) => d.status === 200)).toBe(true);
+  });
+});
+
+describe('createMockVortexServer() webhook timeouts', () => {
+  it('fails deliveries to an endpoint that never responds instead of hanging', async () => {
+    // Settles only when the delivery is aborted
+    const hangingFetch = (_url: unknown, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+      });
+    const server = await createMockVortexServer({
+      webhook: { url: 'http://127.0.0.1:1/webhooks', secret: WEBHOOK_SECRET },
+      fetch: hangingFetch as typeof fetch,
+      webhookTimeoutMs: 50,
+    });
+    try {
+      const vortex = new Vortex({ apiKey: TEST_API_KEY, fetch: server.fetch });
+      const { id } = await vortex.createInvitation(createParams);
+
+      expect(server.invitations.has(id)).toBe(true);
+      expect(server.webhookDeliveries).toEqual([
+        expect.objectContaining({ status: null, error: expect.any(String) }),
+      ]);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { Vortex } from '../src/vortex';
+
+const TEST_API_KEY = 'VRTX.dGVzdGlk.dGVzdGtleQ';
+
+function page(ids: string[], nextCursor: string | null): Response {
+  return new Response(
+    JSON.stringify({
+      invitations: ids.map((id) => ({ id, status: 'delivered', accepts: [] })),
+      nextCursor,
+    }),
+    { status: 200, headers: { 'content-type': 'application/json' } }
+  );
+}
+
+function requestedUrl(fetchImpl: jest.Mock<typeof fetch>, call: number): URL {
+  return new URL(fetchImpl.mock.calls[call][0] as string);
+}
+
+describe('Vortex invitation pagination', () => {
+  it('sends cursor and limit on listing methods', async () => {
+    const fetchImpl = jest.fn<typeof fetch>().mockResolvedValue(page(['inv-3'], null));
+    const vortex = new Vortex({ apiKey: TEST_API_KEY, fetch: fetchImpl });
+
+    const invitations = await vortex.getInvitationsByScope('team', 'team-1', {
+      cursor: 'abc',
+      limit: 25,
+    });
+
+    expect(invitations.map((i) => i.id)).toEqual(['inv-3']);
+    const url = requestedUrl(fetchImpl, 0);
+    expect(url.pathname).toBe('/api/v1/invitations/by-scope/team/team-1');
+    expect(url.searchParams.get('cursor')).toBe('abc');
+    expect(url.searchParams.get('limit')).toBe('25');
+  });
+
+  it('keeps the target query params alongside the cursor', async () => {
+    const fetchImpl = jest.fn<typeof fetch>().mockResolvedValue(page([], null));
+    const vortex = new Vortex({ apiKey: TEST_API_KEY, fetch: fetchImpl });
+
+    await vortex.getInvitationsByTarget('email', 'user@example.com', { cursor: 'next' });
+
+    const url = requestedUrl(fetchImpl, 0);
+    expect(url.searchParams.get('targetType')).toBe('email');
+    expect(url.searchParams.get('targetValue')).toBe('user@example.com');
+    expect(url.searchParams.get('cursor')).toBe('next');
+    expect(url.searchParams.has('limit')).toBe(false);
+  });
+
+  it('iterates every page until nextCursor is null', async () => {
+    const fetchImpl = jest
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(page(['inv-1', 'inv-2'], 'c2'))
+      .mockResolvedValueOnce(page(['inv-3'], null));
+    const vortex = new Vortex({ apiKey: TEST_API_KEY, fetch: fetchImpl });
+
+    const ids: string[] = [];
+    for await (const invitation of vortex.iterateInvitationsByScope('team', 'team-1', {
+      pageSize: 2,
+    })) {
+      ids.push(invitation.id);
+    }
+
+    expect(ids).toEqual(['inv-1', 'inv-2', 'inv-3']);
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+    expect(requestedUrl(fetchImpl, 0).searchParams.has('cursor')).toBe(false);
+    expect(requestedUrl(fetchImpl, 0).searchParams.get('limit')).toBe('2');
+    expect(requestedUrl(fetchImpl, 1).searchParams.get('cursor')).toBe('c2');
+  });
+
+  it('applies transformInvitationResults to each page', async () => {
+    const fetchImpl = jest.fn<typeof fetch>().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          invitations: [{ id: 'inv-1', groups: [{ groupId: 'g-1', type: 'team' }] }],
+        }),
+        { status: 200, headers: { 'content-type': 'application/json' } }
+      )
+    );
+    const vortex = new Vortex({ apiKey: TEST_API_KEY, fetch: fetchImpl });
+
+    const results = [];
+    for await (const invitation of vortex.iterateInvitationsByTarget('email', 'user@example.com')) {
+      results.push(invitation);
+    }
+
+    expect(results).toHaveLength(1);
+    expect(results[0].scopes?.[0].scopeId).toBe('g-1');
+    expect(requestedUrl(fetchImpl, 0).searchParams.get('limit')).toBe('100');
+  });
+
+  it('stops fetching when the consumer breaks early', async () => {
+    const fetchImpl = jest
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(page(['inv-1', 'inv-2'], 'c2'))
+      .mockResolvedValueOnce(page(['inv-3'], null));
+    const vortex = new Vortex({ apiKey: TEST_API_KEY, fetch: fetchImpl });
+
+    for await (const invitation of vortex.iterateInvitationsByScope('team', 'team-1')) {
+      expect(invitation.id).toBe('inv-1');
+      break;
+    }
+
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects an invalid pageSize', async () => {
+    const fetchImpl = jest.fn<typeof fetch>();
+    const vortex = new Vortex({ apiKey: TEST_API_KEY, fetch: fetchImpl });
+
+    await expect(
+      vortex.iterateInvitationsByScope('team', 'team-1', { pageSize: 0 }).next()
+    ).rejects.toThrow('Invalid pageSize');
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+});
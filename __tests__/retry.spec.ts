@@ -0,0 +1,130 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { Vortex } from '../src/vortex';
+import { VortexServerError, VortexRateLimitError } from '../src/errors';
+
+const TEST_API_KEY = 'VRTX.dGVzdGlk.dGVzdGtleQ';
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
+
+function createClient(fetchImpl: typeof fetch, maxAttempts = 3): Vortex {
+  return new Vortex({
+    apiKey: TEST_API_KEY,
+    fetch: fetchImpl,
+    retry: { maxAttempts, baseDelayMs: 1, maxDelayMs: 50 },
+  });
+}
+
+describe('Vortex request retries', () => {
+  it('does not retry when retries are not configured', async () => {
+    const fetchImpl = jest.fn<typeof fetch>().mockResolvedValue(jsonResponse({}, 503));
+    const vortex = new Vortex({ apiKey: TEST_API_KEY, fetch: fetchImpl });
+
+    await expect(vortex.getInvitation('inv-1')).rejects.toBeInstanceOf(VortexServerError);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries idempotent requests on 5xx until success', async () => {
+    const fetchImpl = jest
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(jsonResponse({}, 503))
+      .mockResolvedValueOnce(jsonResponse({}, 502))
+      .mockResolvedValueOnce(jsonResponse({ invitations: [] }));
+    const vortex = createClient(fetchImpl);
+
+    await expect(vortex.getInvitationsByScope('team', 'team-1')).resolves.toEqual([]);
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries idempotent requests on network errors', async () => {
+    const fetchImpl = jest
+      .fn<typeof fetch>()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(jsonResponse({}));
+    const vortex = createClient(fetchImpl);
+
+    await vortex.revokeInvitation('inv-1');
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('caps the total number of attempts', async () => {
+    const fetchImpl = jest.fn<typeof fetch>().mockImplementation(async () => jsonResponse({}, 500));
+    const vortex = createClient(fetchImpl, 2);
+
+    await expect(vortex.getInvitation('inv-1')).rejects.toBeInstanceOf(VortexServerError);
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry non-retryable statuses', async () => {
+    const fetchImpl = jest.fn<typeof fetch>().mockResolvedValue(jsonResponse({}, 404));
+    const vortex = createClient(fetchImpl);
+
+    await expect(vortex.getInvitation('inv-1')).rejects.toThrow('404');
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry POST or PUT requests without an idempotency key', async () => {
+    const fetchImpl = jest.fn<typeof fetch>().mockImplementation(async () => jsonResponse({}, 503));
+    const vortex = createClient(fetchImpl);
+
+    await expect(
+      vortex.vortexApiRequest({ method: 'POST', path: '/api/v1/invitations' })
+    ).rejects.toBeInstanceOf(VortexServerError);
+    await expect(
+      vortex.vortexApiRequest({ method: 'PUT', path: '/api/v1/invitations/inv-1' })
+    ).rejects.toBeInstanceOf(VortexServerError);
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries POST requests that carry an idempotency key', async () => {
+    const fetchImpl = jest
+      .fn<typeof fetch>()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(jsonResponse({ id: 'inv-1' }));
+    const vortex = createClient(fetchImpl);
+
+    const result = await vortex.vortexApiRequest({
+      method: 'POST',
+      path: '/api/v1/invitations',
+      idempotencyKey: 'key-123',
+    });
+
+    expect(result).toEqual({ id: 'inv-1' });
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+    const headers = (fetchImpl.mock.calls[1][1] as RequestInit).headers as Record<string, string>;
+    expect(headers['Idempotency-Key']).toBe('key-123');
+  });
+
+  it('honors Retry-After on 429', async () => {
+    const fetchImpl = jest
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(jsonResponse({}, 429, { 'retry-after': '0' }))
+      .mockResolvedValueOnce(jsonResponse({ id: 'inv-1' }));
+    const vortex = createClient(fetchImpl);
+
+    await vortex.getInvitation('inv-1');
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops retrying when Retry-After exceeds maxDelayMs', async () => {
+    const fetchImpl = jest
+      .fn<typeof fetch>()
+      .mockResolvedValue(jsonResponse({}, 429, { 'retry-after': '120' }));
+    const vortex = createClient(fetchImpl);
+
+    const err = await vortex.getInvitation('inv-1').catch((e) => e);
+    expect(err).toBeInstanceOf(VortexRateLimitError);
+    expect(err.retryAfter).toBe(120);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects an invalid maxAttempts', () => {
+    expect(() => new Vortex({ apiKey: TEST_API_KEY, retry: { maxAttempts: 0 } })).toThrow(
+      'Invalid retry.maxAttempts'
+    );
+  });
+});
@@ -97,3 +97,52 @@ describe('Vortex.sign()', () => {
     expect(() => bad.sign({ id: 'u1', email: 'e@x.com' })).toThrow('Invalid API key');
   });
 });
+
+describe('Vortex.verifySignature()', () => {
+  const encodedId = 'AAAAAAAAQACAAAAAAAAAAQ'; // 00000000-0000-4000-8000-000000000001
+  const testApiKey = `VRTX.${encodedId}.test-secret-key-for-signing`;
+  const rotatedApiKey = 'VRTX.AAAAAAAAQACAAAAAAAAAAg.previous-secret-key';
+
+  const vortex = new Vortex(testApiKey);
+  const user = { id: 'user-1', email: 'test@example.com', name: 'Test' };
+
+  it('accepts a signature produced by sign()', () => {
+    const result = vortex.verifySignature(user, vortex.sign(user));
+    expect(result).toEqual({ valid: true, kid: '00000000-0000-4000-8000-000000000001' });
+  });
+
+  it('accepts the same user with keys in a different order', () => {
+    const sig = vortex.sign(user);
+    const reordered = { name: 'Test', email: 'test@example.com', id: 'user-1' };
+    expect(vortex.verifySignature(reordered, sig).valid).toBe(true);
+  });
+
+  it('reports signature_mismatch for a tampered user object', () => {
+    const sig = vortex.sign(user);
+    const result = vortex.verifySignature({ ...user, email: 'attacker@example.com' }, sig);
+    expect(result).toEqual({
+      valid: false,
+      reason: 'signature_mismatch',
+      kid: '00000000-0000-4000-8000-000000000001',
+    });
+  });
+
+  it('reports kid_mismatch for a signature made with another key', () => {
+    const sig = new Vortex(rotatedApiKey).sign(user);
+    const result = vortex.verifySignature(user, sig);
+    expect(result).toEqual({
+      valid: false,
+      reason: 'kid_mismatch',
+      kid: '00000000-0000-4000-8000-000000000002',
+    });
+  });
+
+  it('reports malformed for signatures not in kid:hexDigest format', () => {
+    expect(vortex.verifySignature(user, 'garbage')).toEqual({
+      valid: false,
+      reason: 'malformed',
+      kid: null,
+    });
+    expect(vortex.verifySignature(user, 'kid:abc').valid).toBe(false);
+  });
+});
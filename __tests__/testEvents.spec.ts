@@ -0,0 +1,84 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  VortexWebhooks,
+  VortexWebhookTimestampError,
+  ALL_WEBHOOK_EVENT_TYPES,
+  AnalyticsEventTypes,
+} from '../src';
+import { buildTestWebhookEvent, TEST_WEBHOOK_SECRET } from '../src/testing';
+
+describe('VortexWebhooks.signPayload()', () => {
+  const webhooks = new VortexWebhooks({ secret: [TEST_WEBHOOK_SECRET, 'whsec_previous'] });
+  const payload = JSON.stringify({ hello: 'world' });
+
+  it('produces a timestamped signature that verifies with the first secret', () => {
+    const signature = webhooks.signPayload(payload);
+
+    expect(signature).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+    expect(webhooks.verifySignatureDetailed(payload, signature)).toEqual({
+      valid: true,
+      secretIndex: 0,
+    });
+  });
+
+  it('signs with the given timestamp', () => {
+    const signature = webhooks.signPayload(payload, { timestamp: 1700000000 });
+
+    expect(signature.startsWith('t=1700000000,')).toBe(true);
+    expect(() => webhooks.constructEvent(payload, signature)).toThrow(VortexWebhookTimestampError);
+  });
+
+  it('rejects an invalid timestamp', () => {
+    expect(() => webhooks.signPayload(payload, { timestamp: -1 })).toThrow('Invalid timestamp');
+  });
+});
+
+describe('buildTestWebhookEvent()', () => {
+  const webhooks = new VortexWebhooks({ secret: TEST_WEBHOOK_SECRET, validate: 'strict' });
+
+  it.each(ALL_WEBHOOK_EVENT_TYPES)('builds a valid, signed %s event', (type) => {
+    const { event, payload, signature } = buildTestWebhookEvent(type);
+
+    expect(event.type).toBe(type);
+    expect(webhooks.constructEvent(payload, signature)).toEqual(event);
+  });
+
+  it.each(Object.values(AnalyticsEventTypes))('builds a valid, signed %s analytics event', (name) => {
+    const { event, payload, signature } = buildTestWebhookEvent(name);
+
+    expect(event.name).toBe(name);
+    expect(webhooks.constructEvent(payload, signature)).toEqual(event);
+  });
+
+  it('merges data overrides into the defaults', () => {
+    const { event } = buildTestWebhookEvent('invitation.accepted', {
+      accountId: 'acc_123',
+      data: { invitationId: 'inv_abc' },
+    });
+
+    expect(event.accountId).toBe('acc_123');
+    expect(event.data.invitationId).toBe('inv_abc');
+    expect(event.data.acceptor?.email).toBe('invitee@example.com');
+  });
+
+  it('merges payload overrides into analytics defaults', () => {
+    const { event } = buildTestWebhookEvent('share_triggered', { payload: { channel: 'sms' } });
+
+    expect(event.payload?.channel).toBe('sms');
+  });
+
+  it('signs with the given secret and returns request headers', () => {
+    const { payload, headers } = buildTestWebhookEvent('member.created', {}, { secret: 'whsec_other' });
+    const other = new VortexWebhooks({ secret: 'whsec_other' });
+
+    expect(headers['content-type']).toBe('application/json');
+    expect(other.verifySignature(payload, headers['x-vortex-signature'])).toBe(true);
+    expect(webhooks.verifySignature(payload, headers['x-vortex-signature'])).toBe(false);
+  });
+
+  it('rejects unknown event types', () => {
+    expect(() => buildTestWebhookEvent('invitation.archived' as 'invitation.created')).toThrow(
+      'Unknown webhook event type'
+    );
+  });
+});
@@ -0,0 +1,132 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, it, expect, jest } from '@jest/globals';
+import { Vortex } from '../src/vortex';
+import { VortexTimeoutError } from '../src/errors';
+
+const TEST_API_KEY = 'VRTX.dGVzdGlk.dGVzdGtleQ';
+
+/** A fetch that never responds, but rejects like the real fetch when its signal aborts */
+function hangingFetch() {
+  return jest.fn<typeof fetch>().mockImplementation(
+    (_url, init) =>
+      new Promise<Response>((_resolve, reject) => {
+        const signal = init?.signal;
+        signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+      })
+  );
+}
+
+describe('Vortex request timeouts and cancellation', () => {
+  it('rejects with VortexTimeoutError when the client timeout elapses', async () => {
+    const vortex = new Vortex({ apiKey: TEST_API_KEY, fetch: hangingFetch(), timeoutMs: 20 });
+
+    const err = await vortex.getInvitation('inv-1').catch((e) => e);
+
+    expect(err).toBeInstanceOf(VortexTimeoutError);
+    expect(err.timeoutMs).toBe(20);
+    expect(err.method).toBe('GET');
+    expect(err.path).toBe('/api/v1/invitations/inv-1');
+  });
+
+  it('lets a per-call timeout override the client timeout', async () => {
+    const vortex = new Vortex({ apiKey: TEST_API_KEY, fetch: hangingFetch(), timeoutMs: 60_000 });
+
+    const err = await vortex
+      .getInvitationsByScope('team', 'team-1', { timeoutMs: 20 })
+      .catch((e) => e);
+
+    expect(err).toBeInstanceOf(VortexTimeoutError);
+    expect(err.timeoutMs).toBe(20);
+  });
+
+  it('retries a timed-out idempotent request when retries are enabled', async () => {
+    const fetchImpl = hangingFetch();
+    const vortex = new Vortex({
+      apiKey: TEST_API_KEY,
+      fetch: fetchImpl,
+      timeoutMs: 10,
+      retry: { maxAttempts: 2, baseDelayMs: 1 },
+    });
+
+    await expect(vortex.revokeInvitation('inv-1')).rejects.toBeInstanceOf(VortexTimeoutError);
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects with the abort reason when the caller aborts', async () => {
+    const fetchImpl = hangingFetch();
+    const vortex = new Vortex({
+      apiKey: TEST_API_KEY,
+      fetch: fetchImpl,
+      timeoutMs: 60_000,
+      retry: true,
+    });
+    const controller = new AbortController();
+
+    const pending = vortex.getInvitation('inv-1', { signal: controller.signal });
+    controller.abort(new Error('request cancelled'));
+
+    await expect(pending).rejects.toThrow('request cancelled');
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not call fetch when the signal is already aborted', async () => {
+    const fetchImpl = hangingFetch();
+    const vortex = new Vortex({ apiKey: TEST_API_KEY, fetch: fetchImpl });
+
+    await expect(
+      vortex.createInvitation(
+        {
+          widgetConfigurationId: 'widget-config-123',
+          target: { type: 'email', value: 'invitee@example.com' },
+          inviter: { userId: 'user-456' },
+        },
+        { signal: AbortSignal.abort() }
+      )
+    ).rejects.toThrow();
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+
+  it('passes the caller signal to fetch', async () => {
+    const fetchImpl = jest.fn<typeof fetch>().mockResolvedValue(new Response(null, { status: 204 }));
+    const vortex = new Vortex({ apiKey: TEST_API_KEY, fetch: fetchImpl });
+    const controller = new AbortController();
+
+    await vortex.deleteInvitationsByScope('team', 'team-1', { signal: controller.signal });
+
+    expect((fetchImpl.mock.calls[0][1] as RequestInit).signal).toBe(controller.signal);
+  });
+
+  it('rejects an invalid per-call timeout', async () => {
+    const vortex = new Vortex({ apiKey: TEST_API_KEY, fetch: hangingFetch() });
+    await expect(vortex.getInvitation('inv-1', { timeoutMs: -1 })).rejects.toThrow(
+      'Invalid timeoutMs'
+    );
+  });
+
+  it('rejects with VortexTimeoutError when the response body stalls', async () => {
+    // Sends headers and part of the body, then never finishes
+    const server = http.createServer((_req, res) => {
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.write('{"id":');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const vortex = new Vortex({
+        apiKey: TEST_API_KEY,
+        baseUrl: `http://127.0.0.1:${port}`,
+        timeoutMs: 200,
+      });
+
+      const err = await vortex.getInvitation('inv-1').catch((e) => e);
+
+      expect(err).toBeInstanceOf(VortexTimeoutError);
+      expect(err.timeoutMs).toBe(200);
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
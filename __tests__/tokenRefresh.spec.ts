@@ -0,0 +1,245 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import {
+  Vortex,
+  VortexTokenError,
+  MemoryTokenRevocationStore,
+  TokenRevocationStore,
+  createTokenRefreshHandler,
+} from '../src';
+
+const encodedId = 'AAAAAAAAQACAAAAAAAAAAQ'; // 00000000-0000-4000-8000-000000000001
+const testApiKey = `VRTX.${encodedId}.test-secret-key-for-signing`;
+
+const data = { user: { id: 'user-1', email: 'test@example.com' }, component: 'widget-1' };
+
+function decodePayload(token: string) {
+  return JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+}
+
+async function expectTokenError(promise: Promise<unknown>, code: string) {
+  const err = await promise.then(
+    () => undefined,
+    (e: unknown) => e
+  );
+  expect(err).toBeInstanceOf(VortexTokenError);
+  expect((err as VortexTokenError).code).toBe(code);
+}
+
+describe('Vortex token pairs', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('issues a 15 minute access token and a 7 day refresh token by default', () => {
+    const vortex = new Vortex(testApiKey);
+
+    const pair = vortex.generateTokenPair(data);
+
+    expect(pair.expiresIn).toBe(15 * 60);
+    expect(pair.refreshExpiresIn).toBe(7 * 24 * 60 * 60);
+    expect(vortex.verifyToken(pair.accessToken)).toMatchObject({ ...data, sub: 'user-1' });
+    expect(decodePayload(pair.refreshToken)).toMatchObject({ tokenUse: 'refresh', data });
+  });
+
+  it('applies the access token options and refreshExpiresIn', () => {
+    const vortex = new Vortex(testApiKey);
+
+    const pair = vortex.generateTokenPair(data, {
+      expiresIn: '5m',
+      refreshExpiresIn: 'PT8H',
+      audience: 'widget-backend',
+    });
+
+    expect(pair.expiresIn).toBe(300);
+    expect(pair.refreshExpiresIn).toBe(8 * 60 * 60);
+    expect(vortex.verifyToken(pair.accessToken, { audience: 'widget-backend' }).aud).toBe(
+      'widget-backend'
+    );
+  });
+
+  it('rejects a refresh lifetime above maxTokenLifetime', () => {
+    const vortex = new Vortex({ apiKey: testApiKey, maxTokenLifetime: '1d' });
+
+    expect(() => vortex.generateTokenPair(data)).toThrow('exceeds maxTokenLifetime');
+  });
+
+  it('does not let callers mint refresh tokens with generateToken or generateJwt', () => {
+    const vortex = new Vortex(testApiKey);
+    const forged = { tokenUse: 'refresh', data, access: { expiresIn: 900 }, jti: 'forged' };
+
+    expect(() => vortex.generateToken({ user: { id: 'user-1' }, ...forged })).toThrow(
+      'tokenUse is a reserved claim'
+    );
+    expect(() => vortex.generateJwt({ user: { id: 'user-1' }, ...forged })).toThrow(
+      'tokenUse is a reserved claim'
+    );
+  });
+
+  it('does not accept refresh tokens as access tokens', async () => {
+    const vortex = new Vortex({
+      apiKey: testApiKey,
+      revocationStore: new MemoryTokenRevocationStore(),
+    });
+    const { refreshToken } = vortex.generateTokenPair(data);
+
+    expect(() => vortex.verifyToken(refreshToken)).toThrow(VortexTokenError);
+    await expectTokenError(vortex.verifyActiveToken(refreshToken), 'wrong_token_type');
+  });
+
+  it('marks refresh tokens so generic JWT verifiers reject them', () => {
+    const vortex = new Vortex(testApiKey);
+    const pair = vortex.generateTokenPair(data, { audience: 'widget-backend' });
+
+    const decodeHeader = (token: string) =>
+      JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString());
+    expect(decodeHeader(pair.accessToken).typ).toBe('JWT');
+    expect(decodeHeader(pair.refreshToken).typ).toBe('refresh+jwt');
+    expect(decodePayload(pair.refreshToken).aud).toBe('vortex:refresh');
+
+    expect(() => vortex.verifyToken(pair.refreshToken, { audience: 'vortex:refresh' })).toThrow(
+      'Refresh tokens cannot be used as access tokens'
+    );
+  });
+
+  describe('refreshToken()', () => {
+    it('reissues a pair with the same data and access options', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const vortex = new Vortex(testApiKey);
+      const pair = vortex.generateTokenPair(data, { expiresIn: '10m', issuer: 'acme-api' });
+
+      jest.setSystemTime(new Date('2026-01-01T01:00:00Z'));
+      const refreshed = await vortex.refreshToken(pair.refreshToken);
+
+      expect(refreshed.expiresIn).toBe(600);
+      expect(refreshed.refreshExpiresIn).toBe(pair.refreshExpiresIn - 60 * 60);
+      expect(vortex.verifyToken(refreshed.accessToken, { issuer: 'acme-api' })).toMatchObject({
+        ...data,
+        iat: Date.parse('2026-01-01T01:00:00Z') / 1000,
+      });
+      expect(refreshed.refreshToken).not.toBe(pair.refreshToken);
+    });
+
+    it('never issues an access token that outlives the refresh token', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const vortex = new Vortex(testApiKey);
+      const pair = vortex.generateTokenPair(data, { expiresIn: '1h', refreshExpiresIn: '2h' });
+
+      jest.setSystemTime(new Date('2026-01-01T01:30:00Z'));
+      const refreshed = await vortex.refreshToken(pair.refreshToken);
+
+      expect(refreshed.expiresIn).toBe(30 * 60);
+      expect(refreshed.refreshExpiresIn).toBe(30 * 60);
+    });
+
+    it('rejects expired refresh tokens and access tokens', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const vortex = new Vortex(testApiKey);
+      const pair = vortex.generateTokenPair(data, { refreshExpiresIn: '1h' });
+
+      await expectTokenError(vortex.refreshToken(pair.accessToken), 'wrong_token_type');
+
+      jest.setSystemTime(new Date('2026-01-01T01:00:00Z'));
+      await expectTokenError(vortex.refreshToken(pair.refreshToken), 'expired');
+    });
+
+    it('makes refresh tokens single-use with a revocation store', async () => {
+      const store = new MemoryTokenRevocationStore();
+      const vortex = new Vortex({ apiKey: testApiKey, revocationStore: store });
+      const pair = vortex.generateTokenPair(data);
+
+      const refreshed = await vortex.refreshToken(pair.refreshToken);
+
+      await expectTokenError(vortex.refreshToken(pair.refreshToken), 'revoked');
+      expect(await vortex.verifyActiveToken(refreshed.accessToken)).toMatchObject(data);
+    });
+
+    it('lets only one of two concurrent refreshes use a refresh token', async () => {
+      const vortex = new Vortex({
+        apiKey: testApiKey,
+        revocationStore: new MemoryTokenRevocationStore(),
+      });
+      const pair = vortex.generateTokenPair(data);
+
+      const results = await Promise.allSettled([
+        vortex.refreshToken(pair.refreshToken),
+        vortex.refreshToken(pair.refreshToken),
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    });
+
+    it('ends the session when the refresh token jti is revoked', async () => {
+      const vortex = new Vortex({
+        apiKey: testApiKey,
+        revocationStore: new MemoryTokenRevocationStore(),
+      });
+      const pair = vortex.generateTokenPair(data);
+
+      await vortex.revokeToken(decodePayload(pair.refreshToken).jti);
+
+      await expectTokenError(vortex.refreshToken(pair.refreshToken), 'revoked');
+    });
+  });
+});
+
+describe('createTokenRefreshHandler()', () => {
+  const vortex = new Vortex(testApiKey);
+
+  it('responds with a new pair', async () => {
+    const refresh = createTokenRefreshHandler(vortex);
+    const { refreshToken } = vortex.generateTokenPair(data);
+
+    const result = await refresh({ refreshToken });
+
+    expect(result.status).toBe(200);
+    expect(result.body).toEqual(
+      expect.objectContaining({ accessToken: expect.any(String), expiresIn: 900 })
+    );
+  });
+
+  it('responds 400 to a body without a refreshToken', async () => {
+    const onError = jest.fn<(error: Error) => void>();
+    const refresh = createTokenRefreshHandler(vortex, { onError });
+
+    for (const body of [undefined, null, 'token', {}, { refreshToken: 42 }]) {
+      expect(await refresh(body)).toEqual({ status: 400, body: { error: 'invalid_request' } });
+    }
+    expect(onError).toHaveBeenCalledTimes(5);
+  });
+
+  it('responds 401 with the error code to a rejected refresh token', async () => {
+    const onError = jest.fn<(error: Error) => void>();
+    const refresh = createTokenRefreshHandler(vortex, { onError });
+    const { accessToken } = vortex.generateTokenPair(data);
+
+    expect(await refresh({ refreshToken: accessToken })).toEqual({
+      status: 401,
+      body: { error: 'wrong_token_type' },
+    });
+    expect(await refresh({ refreshToken: 'not-a-token' })).toEqual({
+      status: 401,
+      body: { error: 'malformed' },
+    });
+    expect(onError).toHaveBeenCalledWith(expect.any(VortexTokenError));
+  });
+
+  it('responds 500 when the revocation store fails', async () => {
+    const store: TokenRevocationStore = {
+      isRevoked: () => false,
+      revoke: () => undefined,
+      consume: async () => {
+        throw new Error('redis down');
+      },
+    };
+    const storeVortex = new Vortex({ apiKey: testApiKey, revocationStore: store });
+    const onError = jest.fn<(error: Error) => void>();
+    const refresh = createTokenRefreshHandler(storeVortex, { onError });
+    const { refreshToken } = storeVortex.generateTokenPair(data);
+
+    expect(await refresh({ refreshToken })).toEqual({
+      status: 500,
+      body: { error: 'server_error' },
+    });
+    expect(onError).toHaveBeenCalledWith(new Error('redis down'));
+  });
+});
@@ -0,0 +1,267 @@
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import {
+  Vortex,
+  VortexTokenError,
+  MemoryTokenRevocationStore,
+  FileTokenRevocationStore,
+  TokenRevocationStore,
+} from '../src';
+
+const encodedId = 'AAAAAAAAQACAAAAAAAAAAQ'; // 00000000-0000-4000-8000-000000000001
+const testApiKey = `VRTX.${encodedId}.test-secret-key-for-signing`;
+
+async function expectTokenError(promise: Promise<unknown>, code: string) {
+  const err = await promise.then(
+    () => undefined,
+    (e: unknown) => e
+  );
+  expect(err).toBeInstanceOf(VortexTokenError);
+  expect((err as VortexTokenError).code).toBe(code);
+}
+
+describe('Vortex token revocation', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('gives generated tokens a random jti when a store is configured', () => {
+    const vortex = new Vortex({
+      apiKey: testApiKey,
+      revocationStore: new MemoryTokenRevocationStore(),
+    });
+
+    const first = vortex.verifyToken(vortex.generateToken({ user: { id: 'user-1' } }));
+    const second = vortex.verifyToken(
+      vortex.generateJwt({ user: { id: 'user-1', email: 'test@example.com' } })
+    );
+
+    expect(first.jti).toMatch(/^[0-9a-f-]{36}$/);
+    expect(second.jti).toMatch(/^[0-9a-f-]{36}$/);
+    expect(first.jti).not.toBe(second.jti);
+    expect(
+      vortex.verifyToken(vortex.generateToken({ user: { id: 'user-1' } }, { jti: 'custom' })).jti
+    ).toBe('custom');
+  });
+
+  it('rejects revoked tokens in verifyActiveToken', async () => {
+    const vortex = new Vortex({
+      apiKey: testApiKey,
+      revocationStore: new MemoryTokenRevocationStore(),
+    });
+    const token = vortex.generateToken({ user: { id: 'user-1' } }, { jti: 'token-1' });
+    const other = vortex.generateToken({ user: { id: 'user-2' } }, { jti: 'token-2' });
+
+    expect((await vortex.verifyActiveToken(token)).jti).toBe('token-1');
+
+    await vortex.revokeToken('token-1');
+
+    await expectTokenError(vortex.verifyActiveToken(token), 'revoked');
+    expect((await vortex.verifyActiveToken(other)).sub).toBe('user-2');
+    // verifyToken does not consult the store
+    expect(vortex.verifyToken(token).jti).toBe('token-1');
+  });
+
+  it('still runs the verifyToken checks', async () => {
+    const vortex = new Vortex({
+      apiKey: testApiKey,
+      revocationStore: new MemoryTokenRevocationStore(),
+    });
+    const token = vortex.generateToken({ user: { id: 'user-1' } }, { audience: 'billing' });
+
+    await expectTokenError(vortex.verifyActiveToken(`${token}x`), 'invalid_signature');
+    await expectTokenError(
+      vortex.verifyActiveToken(token, { audience: 'reports' }),
+      'invalid_audience'
+    );
+  });
+
+  it('accepts tokens without a jti, which cannot be revoked', async () => {
+    const signer = new Vortex(testApiKey);
+    const vortex = new Vortex({
+      apiKey: testApiKey,
+      revocationStore: new MemoryTokenRevocationStore(),
+    });
+
+    const payload = await vortex.verifyActiveToken(signer.generateToken({ user: { id: 'user-1' } }));
+
+    expect(payload.jti).toBeUndefined();
+  });
+
+  it('keeps a revocation until the given time, defaulting to maxTokenLifetime', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const store = new MemoryTokenRevocationStore();
+    const vortex = new Vortex({ apiKey: testApiKey, revocationStore: store, maxTokenLifetime: '7d' });
+
+    await vortex.revokeToken('token-1', new Date('2026-01-02T00:00:00Z'));
+    await vortex.revokeToken('token-2');
+
+    expect(store.entries()).toEqual({
+      'token-1': Date.parse('2026-01-02T00:00:00Z') / 1000,
+      'token-2': Date.parse('2026-01-08T00:00:00Z') / 1000,
+    });
+  });
+
+  it('works with a custom async store', async () => {
+    const revoked = new Map<string, number>();
+    const store: TokenRevocationStore = {
+      isRevoked: async (jti) => revoked.has(jti),
+      revoke: async (jti, until) => {
+        revoked.set(jti, until);
+      },
+      consume: async () => {
+        throw new Error('not used by revokeToken or verifyActiveToken');
+      },
+    };
+    const vortex = new Vortex({ apiKey: testApiKey, revocationStore: store });
+    const token = vortex.generateToken({ user: { id: 'user-1' } });
+    const { jti, exp } = vortex.verifyToken(token);
+
+    await vortex.revokeToken(jti!, exp);
+
+    expect(revoked.get(jti!)).toBe(exp);
+    await expectTokenError(vortex.verifyActiveToken(token), 'revoked');
+  });
+
+  it('requires a revocationStore', async () => {
+    const vortex = new Vortex(testApiKey);
+
+    await expect(vortex.revokeToken('token-1')).rejects.toThrow(
+      'revokeToken requires a revocationStore'
+    );
+    await expect(
+      vortex.verifyActiveToken(vortex.generateToken({ user: { id: 'user-1' } }))
+    ).rejects.toThrow('verifyActiveToken requires a revocationStore');
+  });
+
+  it('rejects an empty jti or invalid until', async () => {
+    const vortex = new Vortex({
+      apiKey: testApiKey,
+      revocationStore: new MemoryTokenRevocationStore(),
+    });
+
+    await expect(vortex.revokeToken('')).rejects.toThrow('revokeToken requires a non-empty jti');
+    await expect(vortex.revokeToken('token-1', new Date('not a date'))).rejects.toThrow(
+      'Invalid until value'
+    );
+  });
+});
+
+describe('MemoryTokenRevocationStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('forgets revocations once the token would have expired', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const now = Date.now() / 1000;
+    const store = new MemoryTokenRevocationStore();
+    store.revoke('a', now + 60);
+    store.revoke('b', now + 120);
+
+    expect(store.isRevoked('a')).toBe(true);
+
+    jest.setSystemTime(new Date('2026-01-01T00:01:00Z'));
+    expect(store.isRevoked('a')).toBe(false);
+    expect(store.entries()).toEqual({ b: now + 120 });
+  });
+
+  it('consumes a token ID only once', () => {
+    const store = new MemoryTokenRevocationStore();
+    const until = Math.floor(Date.now() / 1000) + 3600;
+
+    expect(store.consume('a', until)).toBe(true);
+    expect(store.consume('a', until)).toBe(false);
+    expect(store.isRevoked('a')).toBe(true);
+  });
+
+  it('keeps the later expiry when a token is revoked twice', () => {
+    const store = new MemoryTokenRevocationStore();
+    const later = Math.floor(Date.now() / 1000) + 3600;
+    store.revoke('a', later);
+    store.revoke('a', later - 60);
+
+    expect(store.entries()).toEqual({ a: later });
+  });
+});
+
+describe('FileTokenRevocationStore', () => {
+  let dir: string;
+  let file: string;
+  const until = Math.floor(Date.now() / 1000) + 3600;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'vortex-tokens-'));
+    file = path.join(dir, 'nested', 'revoked.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists revocations across instances', async () => {
+    const first = new FileTokenRevocationStore({ path: file });
+    expect(await first.isRevoked('token-1')).toBe(false);
+    await first.revoke('token-1', until);
+
+    const second = new FileTokenRevocationStore({ path: file });
+    expect(await second.isRevoked('token-1')).toBe(true);
+    expect(JSON.parse(await fs.readFile(file, 'utf8'))).toEqual({ 'token-1': until });
+  });
+
+  it('drops expired revocations from the file', async () => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify({ old: 1_000_000_000 }));
+    const store = new FileTokenRevocationStore({ path: file });
+
+    expect(await store.isRevoked('old')).toBe(false);
+    await store.revoke('new', until);
+
+    expect(JSON.parse(await fs.readFile(file, 'utf8'))).toEqual({ new: until });
+  });
+
+  it('rejects a file that does not hold revoked token IDs', async () => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, '["token-1"]');
+
+    await expect(new FileTokenRevocationStore({ path: file }).isRevoked('a')).rejects.toThrow(
+      'Invalid token revocation file'
+    );
+  });
+
+  it('consumes a token ID only once, also across instances', async () => {
+    const store = new FileTokenRevocationStore({ path: file });
+
+    const consumed = await Promise.all([
+      store.consume('token-1', until),
+      store.consume('token-1', until),
+    ]);
+
+    expect(consumed).toEqual([true, false]);
+    expect(await new FileTokenRevocationStore({ path: file }).consume('token-1', until)).toBe(false);
+  });
+
+  it('recovers after a failed write', async () => {
+    const store = new FileTokenRevocationStore({ path: file });
+    expect(await store.isRevoked('token-1')).toBe(false);
+    // A regular file where the store's directory should be makes the write fail
+    await fs.writeFile(path.dirname(file), 'not a directory');
+
+    await expect(store.revoke('token-1', until)).rejects.toThrow();
+
+    await fs.rm(path.dirname(file));
+    await store.revoke('token-2', until);
+    expect(JSON.parse(await fs.readFile(file, 'utf8'))).toEqual({
+      'token-1': until,
+      'token-2': until,
+    });
+  });
+
+  it('requires a path', () => {
+    expect(() => new FileTokenRevocationStore({ path: '' })).toThrow(
+      'FileTokenRevocationStore requires a path'
+    );
+  });
+});
@@ -0,0 +1,155 @@
+import crypto from 'node:crypto';
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { Vortex } from '../src/vortex';
+import { VortexTokenError } from '../src/errors';
+
+describe('Vortex.verifyToken()', () => {
+  const encodedId = 'AAAAAAAAQACAAAAAAAAAAQ'; // 00000000-0000-4000-8000-000000000001
+  const rawKey = 'test-secret-key-for-signing';
+  const testApiKey = `VRTX.${encodedId}.${rawKey}`;
+  const otherApiKey = `VRTX.AAAAAAAAQACAAAAAAAAAAg.another-secret-key`;
+
+  const vortex = new Vortex(testApiKey);
+
+  function expectTokenError(fn: () => unknown, code: string) {
+    try {
+      fn();
+    } catch (err) {
+      expect(err).toBeInstanceOf(VortexTokenError);
+      expect((err as VortexTokenError).code).toBe(code);
+      return;
+    }
+    throw new Error(`Expected VortexTokenError with code "${code}"`);
+  }
+
+  function resign(token: string, mutate: (header: any, payload: any) => void): string {
+    const [headerB64, payloadB64] = token.split('.');
+    const header = JSON.parse(Buffer.from(headerB64, 'base64url').toString());
+    const payload = JSON.parse(Buffer.from(payloadB64, 'base64url').toString());
+    mutate(header, payload);
+    const kid = '00000000-0000-4000-8000-000000000001';
+    const signingKey = crypto.createHmac('sha256', rawKey).update(kid).digest();
+    const toSign = `${Buffer.from(JSON.stringify(header)).toString('base64url')}.${Buffer.from(
+      JSON.stringify(payload)
+    ).toString('base64url')}`;
+    const sig = crypto.createHmac('sha256', signingKey).update(toSign).digest('base64url');
+    return `${toSign}.${sig}`;
+  }
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('returns the payload of a token from generateToken', () => {
+    const token = vortex.generateToken({
+      component: 'widget-123',
+      user: { id: 'user-1', email: 'user@example.com' },
+      scope: 'workspace_456',
+    });
+
+    const payload = vortex.verifyToken(token);
+
+    expect(payload.component).toBe('widget-123');
+    expect(payload.user).toEqual({ id: 'user-1', email: 'user@example.com' });
+    expect(payload.scope).toBe('workspace_456');
+    expect(payload.exp).toBe(payload.iat + 30 * 24 * 60 * 60);
+  });
+
+  it('verifies tokens from generateJwt', () => {
+    const token = vortex.generateJwt({ user: { id: 'user-1', email: 'user@example.com' } });
+
+    const payload = vortex.verifyToken(token);
+
+    expect(payload.userId).toBe('user-1');
+    expect(payload.exp).toBe(payload.expires);
+    expect(payload.iat).toBeGreaterThan(0);
+  });
+
+  it('rejects malformed tokens', () => {
+    expectTokenError(() => vortex.verifyToken('not-a-token'), 'malformed');
+    expectTokenError(() => vortex.verifyToken('a.b.c'), 'malformed');
+    expectTokenError(() => vortex.verifyToken(''), 'malformed');
+  });
+
+  it('rejects tampered payloads', () => {
+    const token = vortex.generateToken({ user: { id: 'user-1' } });
+    const [headerB64, , signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ user: { id: 'admin' }, iat: 1, exp: 9999999999 }))
+      .toString('base64url');
+
+    expectTokenError(() => vortex.verifyToken(`${headerB64}.${forged}.${signature}`), 'invalid_signature');
+  });
+
+  it('rejects tokens signed by a different API key', () => {
+    const token = new Vortex(otherApiKey).generateToken({ user: { id: 'user-1' } });
+    expectTokenError(() => vortex.verifyToken(token), 'unknown_kid');
+  });
+
+  it('rejects unsupported algorithms', () => {
+    const token = resign(vortex.generateToken({ user: { id: 'user-1' } }), (header) => {
+      header.alg = 'none';
+    });
+    expectTokenError(() => vortex.verifyToken(token), 'unsupported_algorithm');
+  });
+
+  it('rejects expired tokens, honoring clock tolerance', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const token = vortex.generateToken({ user: { id: 'user-1' } }, { expiresIn: '5m' });
+
+    jest.setSystemTime(new Date('2026-01-01T00:05:10Z'));
+    expectTokenError(() => vortex.verifyToken(token), 'expired');
+    expect(vortex.verifyToken(token, { clockToleranceSec: 30 }).user?.id).toBe('user-1');
+  });
+
+  it('rejects tokens issued in the future', () => {
+    const token = resign(vortex.generateToken({ user: { id: 'user-1' } }), (_header, payload) => {
+      payload.iat += 600;
+    });
+    expectTokenError(() => vortex.verifyToken(token), 'not_yet_valid');
+  });
+
+  it('rejects tokens older than maxAge', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const token = vortex.generateToken({ user: { id: 'user-1' } });
+
+    jest.setSystemTime(new Date('2026-01-01T02:00:00Z'));
+    expectTokenError(() => vortex.verifyToken(token, { maxAge: '1h' }), 'max_age_exceeded');
+    expect(vortex.verifyToken(token, { maxAge: '1d' }).user?.id).toBe('user-1');
+  });
+
+  it('rejects tokens before their nbf time, honoring clock tolerance', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const token = vortex.generateToken({ user: { id: 'user-1' } }, { notBefore: '1m' });
+
+    expectTokenError(() => vortex.verifyToken(token), 'not_yet_valid');
+    expect(vortex.verifyToken(token, { clockToleranceSec: 60 }).nbf).toBeDefined();
+
+    jest.setSystemTime(new Date('2026-01-01T00:01:00Z'));
+    expect(vortex.verifyToken(token).sub).toBe('user-1');
+  });
+
+  it('checks the audience when requested', () => {
+    const token = vortex.generateToken(
+      { user: { id: 'user-1' } },
+      { audience: ['widget-backend', 'billing'] }
+    );
+
+    expect(vortex.verifyToken(token, { audience: 'billing' }).aud).toEqual([
+      'widget-backend',
+      'billing',
+    ]);
+    expect(vortex.verifyToken(token, { audience: ['reports', 'widget-backend'] })).toBeDefined();
+    expectTokenError(() => vortex.verifyToken(token, { audience: 'reports' }), 'invalid_audience');
+    expectTokenError(
+      () => vortex.verifyToken(vortex.generateToken({ user: { id: 'user-1' } }), { audience: 'billing' }),
+      'invalid_audience'
+    );
+  });
+
+  it('checks the issuer when requested', () => {
+    const token = vortex.generateToken({ user: { id: 'user-1' } }, { issuer: 'acme-api' });
+
+    expect(vortex.verifyToken(token, { issuer: ['acme-api', 'acme-admin'] }).iss).toBe('acme-api');
+    expectTokenError(() => vortex.verifyToken(token, { issuer: 'someone-else' }), 'invalid_issuer');
+  });
+});
@@ -0,0 +1,168 @@
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import {
+  VortexWebhooks,
+  VortexWebhookEvent,
+  MemoryWebhookIdempotencyStore,
+  FileWebhookIdempotencyStore,
+  WebhookIdempotencyStore,
+} from '../src';
+
+const TEST_SECRET = 'whsec_test_secret_key_1234567890';
+
+function webhookEvent(id: string): VortexWebhookEvent {
+  return {
+    id,
+    type: 'invitation.accepted',
+    timestamp: '2026-02-25T12:00:00Z',
+    accountId: 'acc_456',
+    environmentId: 'env_789',
+    sourceTable: 'invitations',
+    operation: 'update',
+    data: { invitationId: 'inv_abc' },
+  };
+}
+
+describe('VortexWebhooks.handleEvent() deduplication', () => {
+  it('runs handlers once per event ID', async () => {
+    const webhooks = new VortexWebhooks({
+      secret: TEST_SECRET,
+      idempotencyStore: new MemoryWebhookIdempotencyStore(),
+    });
+    const onEvent = jest.fn<(e: VortexWebhookEvent) => void>();
+
+    await webhooks.handleEvent(webhookEvent('evt_1'), { onEvent });
+    await webhooks.handleEvent(webhookEvent('evt_1'), { onEvent });
+    await webhooks.handleEvent(webhookEvent('evt_2'), { onEvent });
+
+    expect(onEvent).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not record events whose handlers throw', async () => {
+    const store = new MemoryWebhookIdempotencyStore();
+    const webhooks = new VortexWebhooks({ secret: TEST_SECRET, idempotencyStore: store });
+    const onEvent = jest
+      .fn<(e: VortexWebhookEvent) => Promise<void>>()
+      .mockRejectedValueOnce(new Error('db down'))
+      .mockResolvedValueOnce(undefined);
+
+    await expect(webhooks.handleEvent(webhookEvent('evt_1'), { onEvent })).rejects.toThrow(
+      'db down'
+    );
+    expect(store.has('evt_1')).toBe(false);
+
+    await webhooks.handleEvent(webhookEvent('evt_1'), { onEvent });
+    expect(onEvent).toHaveBeenCalledTimes(2);
+    expect(store.has('evt_1')).toBe(true);
+  });
+
+  it('works with a custom async store', async () => {
+    const seen = new Set<string>(['evt_1']);
+    const store: WebhookIdempotencyStore = {
+      has: async (id) => seen.has(id),
+      add: async (id) => {
+        seen.add(id);
+      },
+    };
+    const webhooks = new VortexWebhooks({ secret: TEST_SECRET, idempotencyStore: store });
+    const onEvent = jest.fn<(e: VortexWebhookEvent) => void>();
+
+    await webhooks.handleEvent(webhookEvent('evt_1'), { onEvent });
+    await webhooks.handleEvent(webhookEvent('evt_2'), { onEvent });
+
+    expect(onEvent).toHaveBeenCalledTimes(1);
+    expect(seen.has('evt_2')).toBe(true);
+  });
+
+  it('runs handlers on every delivery without a store', async () => {
+    const webhooks = new VortexWebhooks({ secret: TEST_SECRET });
+    const onEvent = jest.fn<(e: VortexWebhookEvent) => void>();
+
+    await webhooks.handleEvent(webhookEvent('evt_1'), { onEvent });
+    await webhooks.handleEvent(webhookEvent('evt_1'), { onEvent });
+
+    expect(onEvent).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('MemoryWebhookIdempotencyStore', () => {
+  it('evicts the least recently used ID', () => {
+    const store = new MemoryWebhookIdempotencyStore({ maxSize: 2 });
+    store.add('a');
+    store.add('b');
+    store.has('a');
+    store.add('c');
+
+    expect(store.keys()).toEqual(['a', 'c']);
+  });
+
+  it('rejects an invalid maxSize', () => {
+    expect(() => new MemoryWebhookIdempotencyStore({ maxSize: 0 })).toThrow('Invalid maxSize');
+  });
+});
+
+describe('FileWebhookIdempotencyStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'vortex-webhooks-'));
+    file = path.join(dir, 'nested', 'processed.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists processed IDs across instances', async () => {
+    const first = new FileWebhookIdempotencyStore({ path: file });
+    expect(await first.has('evt_1')).toBe(false);
+    await first.add('evt_1');
+
+    const second = new FileWebhookIdempotencyStore({ path: file });
+    expect(await second.has('evt_1')).toBe(true);
+    expect(JSON.parse(await fs.readFile(file, 'utf8'))).toEqual(['evt_1']);
+  });
+
+  it('keeps at most maxSize IDs in the file', async () => {
+    const store = new FileWebhookIdempotencyStore({ path: file, maxSize: 2 });
+    await Promise.all([store.add('a'), store.add('b'), store.add('c')]);
+
+    expect(JSON.parse(await fs.readFile(file, 'utf8'))).toEqual(['b', 'c']);
+  });
+
+  it('rejects a file that does not hold an array of IDs', async () => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, '{"not":"ids"}');
+
+    await expect(new FileWebhookIdempotencyStore({ path: file }).has('a')).rejects.toThrow(
+      'Invalid webhook idempotency file'
+    );
+  });
+
+  it('recovers after a failed write', async () => {
+    const store = new FileWebhookIdempotencyStore({ path: file });
+    expect(await store.has('evt_1')).toBe(false);
+    // A regular file where the store's directory should be makes the write fail
+    await fs.writeFile(path.dirname(file), 'not a directory');
+
+    await expect(store.add('evt_1')).rejects.toThrow();
+
+    await fs.rm(path.dirname(file));
+    await store.add('evt_2');
+    expect(JSON.parse(await fs.readFile(file, 'utf8'))).toEqual(['evt_1', 'evt_2']);
+  });
+
+  it('reads the file again after a failed read', async () => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, '{"not":"ids"}');
+    const store = new FileWebhookIdempotencyStore({ path: file });
+
+    await expect(store.has('evt_1')).rejects.toThrow('Invalid webhook idempotency file');
+
+    await fs.writeFile(file, '["evt_1"]');
+    expect(await store.has('evt_1')).toBe(true);
+  });
+});
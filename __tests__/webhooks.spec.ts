@@ -1,14 +1,20 @@
 import crypto from 'node:crypto';
-import { describe, it, expect, beforeEach } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import {
   VortexWebhooks,
   VortexWebhookSignatureError,
+  VortexWebhookTimestampError,
+  VortexWebhookPayloadError,
+  VortexWebhookHandlerError,
   VortexWebhookEvent,
   VortexAnalyticsEvent,
   WebhookEventTypes,
   isWebhookEvent,
   isAnalyticsEvent,
   WebhookHandlers,
+  VortexWebhooksOptions,
+  VortexEvent,
+  MemoryWebhookIdempotencyStore,
 } from '../src';
 
 const TEST_SECRET = 'whsec_test_secret_key_1234567890';
@@ -17,6 +23,10 @@ function sign(payload: string, secret: string = TEST_SECRET): string {
   return crypto.createHmac('sha256', secret).update(payload).digest('hex');
 }
 
+function signTimestamped(payload: string, timestamp: number, secret: string = TEST_SECRET): string {
+  return `t=${timestamp},v1=${sign(`${timestamp}.${payload}`, secret)}`;
+}
+
 const sampleWebhookEvent: VortexWebhookEvent = {
   id: 'evt_123',
   type: 'invitation.accepted',
@@ -129,6 +139,217 @@ describe('VortexWebhooks', () => {
     });
   });
 
+  describe('timestamped signatures', () => {
+    const payload = JSON.stringify(sampleWebhookEvent);
+    const now = Math.floor(new Date('2026-02-25T12:00:00Z').getTime() / 1000);
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: now * 1000 });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('verifies the t=...,v1=... format', () => {
+      expect(webhooks.verifySignature(payload, signTimestamped(payload, now))).toBe(true);
+      expect(webhooks.constructEvent(payload, signTimestamped(payload, now)).id).toBe('evt_123');
+    });
+
+    it('accepts any matching v1 entry', () => {
+      const header = `t=${now},v1=${'0'.repeat(64)},v1=${sign(`${now}.${payload}`)}`;
+      expect(webhooks.verifySignature(payload, header)).toBe(true);
+    });
+
+    it('rejects a signature whose timestamp was changed', () => {
+      const header = signTimestamped(payload, now).replace(`t=${now}`, `t=${now + 1}`);
+      expect(webhooks.verifySignature(payload, header)).toBe(false);
+    });
+
+    it('rejects headers without a timestamp or digest', () => {
+      expect(webhooks.verifySignature(payload, `v1=${sign(payload)}`)).toBe(false);
+      expect(webhooks.verifySignature(payload, `t=${now}`)).toBe(false);
+    });
+
+    it('throws VortexWebhookTimestampError outside the default 300s window', () => {
+      const header = signTimestamped(payload, now - 301);
+      expect(() => webhooks.constructEvent(payload, header)).toThrow(VortexWebhookTimestampError);
+      expect(() => webhooks.constructEvent(payload, header)).toThrow(VortexWebhookSignatureError);
+      expect(() =>
+        webhooks.constructEvent(payload, signTimestamped(payload, now + 301))
+      ).toThrow(VortexWebhookTimestampError);
+    });
+
+    it('honors toleranceSec from the constructor and per call', () => {
+      const header = signTimestamped(payload, now - 60);
+      const strict = new VortexWebhooks({ secret: TEST_SECRET, toleranceSec: 30 });
+
+      expect(() => strict.constructEvent(payload, header)).toThrow(VortexWebhookTimestampError);
+      expect(strict.constructEvent(payload, header, { toleranceSec: 120 }).id).toBe('evt_123');
+      expect(() => webhooks.constructEvent(payload, header, { toleranceSec: 10 })).toThrow(
+        VortexWebhookTimestampError
+      );
+    });
+
+    it('still accepts legacy bare-hex signatures regardless of age', () => {
+      expect(webhooks.constructEvent(payload, sign(payload), { toleranceSec: 0 }).id).toBe(
+        'evt_123'
+      );
+    });
+
+    it('rejects legacy bare-hex signatures when allowLegacySignatures is false', () => {
+      const strict = new VortexWebhooks({ secret: TEST_SECRET, allowLegacySignatures: false });
+
+      expect(() => strict.constructEvent(payload, sign(payload))).toThrow(
+        VortexWebhookSignatureError
+      );
+      expect(() => strict.constructEvent(payload, sign(payload))).not.toThrow(
+        VortexWebhookTimestampError
+      );
+      expect(strict.constructEvent(payload, signTimestamped(payload, now)).id).toBe('evt_123');
+    });
+
+    it('rejects an invalid toleranceSec', () => {
+      expect(() => new VortexWebhooks({ secret: TEST_SECRET, toleranceSec: -1 })).toThrow(
+        'Invalid toleranceSec'
+      );
+    });
+  });
+
+  describe('secret rotation', () => {
+    const payload = JSON.stringify(sampleWebhookEvent);
+    const NEW_SECRET = 'whsec_new_secret';
+    const rotating = new VortexWebhooks({ secret: [NEW_SECRET, TEST_SECRET] });
+
+    it('accepts signatures made with any configured secret', () => {
+      expect(rotating.verifySignature(payload, sign(payload, NEW_SECRET))).toBe(true);
+      expect(rotating.verifySignature(payload, sign(payload, TEST_SECRET))).toBe(true);
+      expect(rotating.constructEvent(payload, sign(payload, TEST_SECRET)).id).toBe('evt_123');
+    });
+
+    it('reports which secret matched', () => {
+      expect(rotating.verifySignatureDetailed(payload, sign(payload, NEW_SECRET))).toEqual({
+        valid: true,
+        secretIndex: 0,
+      });
+      expect(rotating.verifySignatureDetailed(payload, sign(payload, TEST_SECRET))).toEqual({
+        valid: true,
+        secretIndex: 1,
+      });
+    });
+
+    it('rejects signatures from secrets that are not configured', () => {
+      expect(rotating.verifySignatureDetailed(payload, sign(payload, 'other'))).toEqual({
+        valid: false,
+        secretIndex: null,
+      });
+      expect(() => rotating.constructEvent(payload, sign(payload, 'other'))).toThrow(
+        VortexWebhookSignatureError
+      );
+    });
+
+    it('throws if the secret array is empty or contains an empty secret', () => {
+      expect(() => new VortexWebhooks({ secret: [] })).toThrow('requires a secret');
+      expect(() => new VortexWebhooks({ secret: [NEW_SECRET, ''] })).toThrow('requires a secret');
+    });
+  });
+
+  describe('payload validation', () => {
+    const construct = (body: unknown, validate: VortexWebhooksOptions['validate']) => {
+      const payload = JSON.stringify(body);
+      return new VortexWebhooks({ secret: TEST_SECRET, validate }).constructEvent(
+        payload,
+        sign(payload)
+      );
+    };
+
+    const payloadError = (fn: () => unknown): VortexWebhookPayloadError => {
+      try {
+        fn();
+      } catch (err) {
+        expect(err).toBeInstanceOf(VortexWebhookPayloadError);
+        return err as VortexWebhookPayloadError;
+      }
+      throw new Error('Expected a VortexWebhookPayloadError');
+    };
+
+    it('accepts valid webhook and analytics events', () => {
+      expect(construct(sampleWebhookEvent, true)).toEqual(sampleWebhookEvent);
+      expect(construct(sampleAnalyticsEvent, 'strict')).toEqual(sampleAnalyticsEvent);
+    });
+
+    it('reports every invalid field with its path', () => {
+      const error = payloadError(() =>
+        construct(
+          {
+            ...sampleWebhookEvent,
+            operation: 'upsert',
+            data: { scopes: [{ scopeId: 42, type: 'team' }] },
+          },
+          true
+        )
+      );
+
+      expect(error.issues).toEqual([
+        { path: 'operation', message: 'unexpected value "upsert"' },
+        { path: 'data.invitationId', message: 'is required' },
+        { path: 'data.scopes[0].scopeId', message: 'expected string, got number' },
+      ]);
+      expect(error.message).toContain('data.invitationId is required');
+    });
+
+    it('rejects unknown event types and envelope fields in strict mode', () => {
+      const error = payloadError(() =>
+        construct({ ...sampleWebhookEvent, type: 'invitation.archived', region: 'eu' }, 'strict')
+      );
+
+      expect(error.issues.map((issue) => issue.path)).toEqual(['type', 'region']);
+    });
+
+    it('keeps unknown event types and fields in lenient mode', () => {
+      const event = {
+        ...sampleWebhookEvent,
+        type: 'invitation.archived',
+        region: 'eu',
+        data: { archivedBy: 'user_1' },
+      };
+
+      expect(construct(event, 'lenient')).toEqual(event);
+    });
+
+    it('rejects unknown analytics event names in strict mode only', () => {
+      const event = { ...sampleAnalyticsEvent, name: 'brand_new_event' };
+
+      const error = payloadError(() => construct(event, 'strict'));
+      expect(error.issues).toEqual([{ path: 'name', message: 'unexpected value "brand_new_event"' }]);
+      expect(construct(event, 'lenient')).toEqual(event);
+    });
+
+    it('still checks known fields in lenient mode', () => {
+      const error = payloadError(() =>
+        construct({ ...sampleAnalyticsEvent, sessionId: 7 }, 'lenient')
+      );
+
+      expect(error.issues).toEqual([{ path: 'sessionId', message: 'expected string, got number' }]);
+    });
+
+    it('reports malformed JSON as a payload error', () => {
+      const validating = new VortexWebhooks({ secret: TEST_SECRET, validate: true });
+
+      const error = payloadError(() => validating.constructEvent('{not json', sign('{not json')));
+      expect(error.issues[0].path).toBe('');
+    });
+
+    it('does not validate unless enabled, and can be set per call', () => {
+      const payload = JSON.stringify({ ...sampleWebhookEvent, data: {} });
+
+      expect(() => webhooks.constructEvent(payload, sign(payload))).not.toThrow();
+      expect(() => webhooks.constructEvent(payload, sign(payload), { validate: true })).toThrow(
+        VortexWebhookPayloadError
+      );
+    });
+  });
+
   describe('handleEvent', () => {
     it('calls type-specific handler for webhook events', async () => {
       const calls: string[] = [];
@@ -199,6 +420,302 @@ describe('VortexWebhooks', () => {
   });
 });
 
+describe('typed webhook events', () => {
+  it('narrows data by event type in on handlers', async () => {
+    const webhooks = new VortexWebhooks({ secret: TEST_SECRET });
+    const reasons: (string | undefined)[] = [];
+    const bounced: VortexWebhookEvent<'invitation.email.bounced'> = {
+      ...sampleWebhookEvent,
+      type: 'invitation.email.bounced',
+      data: { invitationId: 'inv_abc', bounceReason: 'mailbox full' },
+    };
+
+    await webhooks.handleEvent(bounced, {
+      on: {
+        'invitation.email.bounced': (event) => {
+          // `bounceReason` is typed on this event's data
+          reasons.push(event.data.bounceReason);
+        },
+        'invitation.accepted': (event) => {
+          reasons.push(event.data.acceptor?.email);
+        },
+      },
+    });
+
+    expect(reasons).toEqual(['mailbox full']);
+  });
+
+  it('narrows the union with a type check', () => {
+    const event: VortexWebhookEvent = sampleWebhookEvent;
+    if (event.type === 'invitation.accepted') {
+      expect(event.data.invitationId).toBe('inv_abc');
+    } else {
+      throw new Error('expected invitation.accepted');
+    }
+  });
+});
+
+describe('handler routing', () => {
+  const webhooks = new VortexWebhooks({ secret: TEST_SECRET });
+  const delivered: VortexWebhookEvent<'invitation.email.delivered'> = {
+    ...sampleWebhookEvent,
+    type: 'invitation.email.delivered',
+    data: { invitationId: 'inv_abc', email: 'user@example.com' },
+  };
+
+  it('runs exact, then wildcard from most to least specific, then onEvent', async () => {
+    const calls: string[] = [];
+
+    await webhooks.handleEvent(delivered, {
+      on: {
+        '*': () => {
+          calls.push('*');
+        },
+        'invitation.*': (event) => {
+          calls.push(`invitation.*:${event.data.invitationId}`);
+        },
+        'invitation.email.delivered': [
+          (event) => {
+            calls.push(`exact1:${event.data.email}`);
+          },
+          () => {
+            calls.push('exact2');
+          },
+        ],
+        'invitation.email.*': () => {
+          calls.push('invitation.email.*');
+        },
+        'deployment.*': () => {
+          calls.push('deployment.*');
+        },
+      },
+      onEvent: () => {
+        calls.push('onEvent');
+      },
+    });
+
+    expect(calls).toEqual([
+      'exact1:user@example.com',
+      'exact2',
+      'invitation.email.*',
+      'invitation.*:inv_abc',
+      '*',
+      'onEvent',
+    ]);
+  });
+
+  it('stops at the first failure by default', async () => {
+    const after = jest.fn<(e: VortexWebhookEvent) => void>();
+
+    await expect(
+      webhooks.handleEvent(delivered, {
+        on: {
+          'invitation.*': () => {
+            throw new Error('first');
+          },
+        },
+        onEvent: after,
+      })
+    ).rejects.toThrow('first');
+    expect(after).not.toHaveBeenCalled();
+  });
+
+  it('runs every handler when stopOnError is false', async () => {
+    const after = jest.fn<(e: VortexWebhookEvent) => void>();
+    const onError = jest.fn<(error: Error) => void>();
+
+    const result = webhooks.handleEvent(delivered, {
+      on: {
+        'invitation.email.delivered': () => {
+          throw new Error('first');
+        },
+        '*': async () => {
+          throw new Error('second');
+        },
+      },
+      onEvent: after,
+      onError,
+      stopOnError: false,
+    });
+
+    await expect(result).rejects.toBeInstanceOf(VortexWebhookHandlerError);
+    await result.catch((err: VortexWebhookHandlerError) => {
+      expect(err.errors.map((e) => (e as Error).message)).toEqual(['first', 'second']);
+    });
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('rethrows a single failure as-is when stopOnError is false', async () => {
+    await expect(
+      webhooks.handleEvent(delivered, {
+        on: {
+          '*': () => {
+            throw new Error('only');
+          },
+        },
+        onEvent: () => {},
+        stopOnError: false,
+      })
+    ).rejects.toThrow('only');
+  });
+
+  it('starts all handlers together in parallel mode', async () => {
+    const started: string[] = [];
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    const result = webhooks.handleEvent(delivered, {
+      dispatch: 'parallel',
+      on: {
+        'invitation.email.delivered': async () => {
+          started.push('exact');
+          await gate;
+        },
+        'invitation.*': async () => {
+          started.push('wildcard');
+        },
+      },
+      onEvent: async () => {
+        started.push('onEvent');
+      },
+    });
+
+    expect(started).toEqual(['exact', 'wildcard', 'onEvent']);
+    release();
+    await result;
+  });
+});
+
+describe('middleware', () => {
+  it('runs middleware in registration order around the handlers', async () => {
+    const calls: string[] = [];
+    const webhooks = new VortexWebhooks({
+      secret: TEST_SECRET,
+      middleware: [
+        async (event, next) => {
+          calls.push('outer:before');
+          await next();
+          calls.push('outer:after');
+        },
+      ],
+    }).use(async (event, next) => {
+      calls.push('inner');
+      await next();
+    });
+
+    await webhooks.handleEvent(sampleWebhookEvent, {
+      onEvent: () => {
+        calls.push('handler');
+      },
+    });
+
+    expect(calls).toEqual(['outer:before', 'inner', 'handler', 'outer:after']);
+  });
+
+  it('passes a transformed event to later middleware and handlers', async () => {
+    const onEvent = jest.fn<(e: VortexWebhookEvent) => void>();
+    const webhooks = new VortexWebhooks({ secret: TEST_SECRET }).use((event, next) =>
+      next({ ...event, accountId: 'acc_enriched' } as VortexEvent)
+    );
+
+    await webhooks.handleEvent(sampleWebhookEvent, { onEvent });
+
+    expect(onEvent).toHaveBeenCalledWith({ ...sampleWebhookEvent, accountId: 'acc_enriched' });
+  });
+
+  it('skips the handlers when middleware does not call next', async () => {
+    const store = new MemoryWebhookIdempotencyStore();
+    const onEvent = jest.fn<(e: VortexWebhookEvent) => void>();
+    const webhooks = new VortexWebhooks({ secret: TEST_SECRET, idempotencyStore: store }).use(
+      async (event, next) => {
+        if (event.environmentId === 'env_production') {
+          await next();
+        }
+      }
+    );
+
+    await webhooks.handleEvent(sampleWebhookEvent, { onEvent });
+
+    expect(onEvent).not.toHaveBeenCalled();
+    expect(store.has(sampleWebhookEvent.id)).toBe(true);
+  });
+
+  it('reports middleware errors to onError', async () => {
+    const onError = jest.fn<(error: Error) => void>();
+    const webhooks = new VortexWebhooks({ secret: TEST_SECRET }).use(() => {
+      throw new Error('tenant not found');
+    });
+
+    await expect(webhooks.handleEvent(sampleWebhookEvent, { onError })).rejects.toThrow(
+      'tenant not found'
+    );
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects calling next more than once', async () => {
+    const onEvent = jest.fn<(e: VortexWebhookEvent) => void>();
+    const webhooks = new VortexWebhooks({ secret: TEST_SECRET }).use(async (event, next) => {
+      await next();
+      await next();
+    });
+
+    await expect(webhooks.handleEvent(sampleWebhookEvent, { onEvent })).rejects.toThrow(
+      'called next() more than once'
+    );
+    expect(onEvent).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('typed analytics events', () => {
+  const webhooks = new VortexWebhooks({ secret: TEST_SECRET });
+
+  it('routes analytics events to onAnalytics by name before onAnalyticsEvent', async () => {
+    const calls: string[] = [];
+    const shared: VortexAnalyticsEvent<'share_triggered'> = {
+      ...sampleAnalyticsEvent,
+      name: 'share_triggered',
+      payload: { channel: 'copy_link' },
+    };
+
+    await webhooks.handleEvent(shared, {
+      onAnalytics: {
+        share_triggered: (event) => {
+          // `channel` is typed on this event's payload
+          calls.push(`share:${event.payload?.channel}`);
+        },
+        widget_loaded: () => {
+          calls.push('widget');
+        },
+      },
+      onUnknownAnalyticsEvent: () => {
+        calls.push('unknown');
+      },
+      onAnalyticsEvent: (event) => {
+        calls.push(`all:${event.name}`);
+      },
+    });
+
+    expect(calls).toEqual(['share:copy_link', 'all:share_triggered']);
+  });
+
+  it('sends events with unknown names to onUnknownAnalyticsEvent', async () => {
+    const onUnknownAnalyticsEvent = jest.fn<(e: VortexAnalyticsEvent) => void>();
+    const widgetLoaded = jest.fn<(e: VortexAnalyticsEvent<'widget_loaded'>) => void>();
+    const event = { ...sampleAnalyticsEvent, name: 'survey_completed' };
+
+    await webhooks.handleEvent(event, {
+      onAnalytics: { widget_loaded: widgetLoaded },
+      onUnknownAnalyticsEvent,
+    });
+
+    expect(onUnknownAnalyticsEvent).toHaveBeenCalledWith(event);
+    expect(widgetLoaded).not.toHaveBeenCalled();
+  });
+});
+
 describe('type guards', () => {
   it('isWebhookEvent correctly identifies webhook events', () => {
     expect(isWebhookEvent(sampleWebhookEvent)).toBe(true);
@@ -560,23 +560,172 @@ const token = vortex.generateToken({
     initialization: {
       className: 'Vortex',
       constructor: {
-        signature: 'new Vortex(apiKey: string)',
+        signature: 'new Vortex(apiKeyOrOptions: string | VortexClientOptions)',
         params: [
           {
-            name: 'apiKey',
-            type: 'string',
+            name: 'apiKeyOrOptions',
+            type: 'string | VortexClientOptions',
             required: true,
-            description: 'Your Vortex API key',
+            description:
+              'Your Vortex API key, or client options (apiKey, secondaryApiKeys, baseUrl, timeoutMs, headers, ' +
+              'fetch, userAgentSuffix, retry, signingKey, maxTokenLifetime, revocationStore)',
           },
         ],
         example: `const client = new Vortex(process.env.VORTEX_API_KEY!);`,
       },
+      guides: [
+        {
+          description:
+            'Pass a `VortexClientOptions` object instead of a string to customize the client:',
+          code: `const client = new Vortex({
+  apiKey: process.env.VORTEX_API_KEY!,
+  baseUrl: 'https://api.vortexsoftware.com',
+  timeoutMs: 10_000,
+  headers: { 'x-tenant': 'acme' },
+  userAgentSuffix: 'my-app/1.2.3',
+  retry: { maxAttempts: 3 },
+});`,
+        },
+        {
+          description:
+            'With `retry` enabled, GET and DELETE requests are retried on network errors and on 408, 429 and 5xx ' +
+            'responses, honoring `Retry-After` on 429/503. Other requests (POST, PUT) are only retried when ' +
+            'they carry an idempotency key.',
+        },
+        {
+          description:
+            '`createInvitation`, `acceptInvitations`, `acceptInvitation` and `syncInternalInvitation` accept an ' +
+            'optional last argument with an `idempotencyKey` (sent as the `Idempotency-Key` header), or ' +
+            '`deriveIdempotencyKey: true` to hash the canonical request body into a key:',
+          code: `await vortex.createInvitation(params, { idempotencyKey: \`invite-\${inviterId}-\${inviteeEmail}\` });
+await vortex.acceptInvitation('inv-123', { email: 'user@example.com' }, { deriveIdempotencyKey: true });`,
+        },
+        {
+          description:
+            'Every API method also accepts a `signal` to cancel the request and a `timeoutMs` that overrides ' +
+            'the client timeout for that call:',
+          code: `const invitation = await vortex.getInvitation('inv-123', { signal: req.signal, timeoutMs: 2_000 });`,
+        },
+        {
+          description:
+            'The `getInvitationsBy*` methods return the invitations from a single page. To page manually, ' +
+            'call `listInvitationsByScope` / `listInvitationsByTarget` with `cursor` and `limit`: they return ' +
+            'the page with its `nextCursor`. Or use `iterateInvitationsByScope` / `iterateInvitationsByTarget` ' +
+            'to walk every page with `for await`:',
+          code: `for await (const invitation of vortex.iterateInvitationsByScope('team', 'team-123', { pageSize: 200 })) {
+  console.log(invitation.id);
+}`,
+        },
+        {
+          description:
+            'To rotate your API key without breaking outstanding tokens, make the new key the primary and keep ' +
+            'the old one in `secondaryApiKeys` until tokens signed with it have expired:',
+          code: `const client = new Vortex({
+  apiKey: process.env.VORTEX_API_KEY!,
+  secondaryApiKeys: [process.env.VORTEX_PREVIOUS_API_KEY!],
+});`,
+        },
+        {
+          description:
+            'Tokens are signed with HS256 by default, using a key derived from your API key, so anyone able to ' +
+            'verify them could also mint them. To let other services verify tokens without that power, ' +
+            'configure an ES256 (EC P-256) or Ed25519 `signingKey`. Then publish the public keys from `getJwks()`:',
+          code: `const client = new Vortex({
+  apiKey: process.env.VORTEX_API_KEY!,
+  signingKey: { key: process.env.VORTEX_TOKEN_PRIVATE_KEY!, kid: 'tokens-2026-10' },
+});
+
+app.get('/.well-known/jwks.json', (req, res) => res.json(client.getJwks()));`,
+        },
+        {
+          description:
+            'To rotate keys, pass an array. The first key signs new tokens. Later keys can be public keys, kept ' +
+            'so `verifyToken()` and the JWKS still cover tokens they signed.',
+        },
+      ],
+      options: [
+        { name: 'apiKey', type: 'string', required: true, description: 'Your Vortex API key' },
+        {
+          name: 'secondaryApiKeys',
+          type: 'string[]',
+          required: false,
+          description:
+            'Older API keys still accepted during a key rotation: verification matches them by `kid`, ' +
+            'and API requests fall back to them on 401',
+        },
+        {
+          name: 'baseUrl',
+          type: 'string',
+          required: false,
+          description: 'Vortex API base URL (defaults to `VORTEX_API_BASE_URL`, then the public API)',
+        },
+        {
+          name: 'timeoutMs',
+          type: 'number',
+          required: false,
+          description: 'Abort API requests that take longer than this many milliseconds',
+        },
+        {
+          name: 'headers',
+          type: 'Record<string, string>',
+          required: false,
+          description: 'Additional headers sent with every API request',
+        },
+        {
+          name: 'fetch',
+          type: 'typeof fetch',
+          required: false,
+          description: 'Custom `fetch` implementation',
+        },
+        {
+          name: 'userAgentSuffix',
+          type: 'string',
+          required: false,
+          description: 'Appended to the `User-Agent` header',
+        },
+        {
+          name: 'retry',
+          type: 'RetryOptions | boolean',
+          required: false,
+          description:
+            'Retry failed requests with jittered exponential backoff (disabled by default)',
+        },
+        {
+          name: 'signingKey',
+          type: 'TokenSigningKey | TokenSigningKey[]',
+          required: false,
+          description:
+            'ES256 or Ed25519 key (PEM or `KeyObject`, optional `kid`) to sign tokens with instead of HS256; ' +
+            'the first key signs, all are published by `getJwks()`',
+        },
+        {
+          name: 'maxTokenLifetime',
+          type: 'string | number',
+          required: false,
+          description:
+            'Longest lifetime `generateToken()` and `generateJwt()` accept, from `expiresIn` or `expiresAt`; ' +
+            "longer tokens throw. Same formats as `expiresIn`. Default: `'365d'`",
+        },
+        {
+          name: 'revocationStore',
+          type: 'TokenRevocationStore',
+          required: false,
+          description:
+            'Where `revokeToken()` records revoked token IDs and `verifyActiveToken()` looks them up; ' +
+            'generated tokens then get a random `jti`',
+        },
+      ],
       envVars: [
         {
           name: 'VORTEX_API_KEY',
           description: 'Your Vortex API key',
           required: true,
         },
+        {
+          name: 'VORTEX_API_BASE_URL',
+          description: 'Vortex API base URL, used when baseUrl is not set',
+          required: false,
+        },
       ],
     },
     methods: {
@@ -599,44 +748,264 @@ const token = vortex.generateToken({
       ],
       verifyMethod: 'VortexWebhooks.constructEvent',
       signatureHeader: 'X-Vortex-Signature',
+      verifyGuides: [
+        {
+          description:
+            'Timestamped signatures have the form `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw ' +
+            'body>">`. `constructEvent()` rejects them with `VortexWebhookTimestampError` when the timestamp ' +
+            'is more than `toleranceSec` seconds (default 300) from now, so captured requests cannot be ' +
+            'replayed. Legacy bare-hex signatures of the raw body have no timestamp and are still ' +
+            'accepted during migration; once all your deliveries use timestamped headers, pass ' +
+            '`allowLegacySignatures: false` to reject them.',
+          code: `const webhooks = new VortexWebhooks({
+  secret: process.env.VORTEX_WEBHOOK_SECRET!,
+  toleranceSec: 120,
+  allowLegacySignatures: false,
+});
+const event = webhooks.constructEvent(rawBody, signatureHeader, { toleranceSec: 60 });`,
+        },
+        {
+          description:
+            'To rotate the signing secret without dropping webhooks, pass both secrets while the change ' +
+            'rolls out. `verifySignatureDetailed()` reports which one matched, so you can tell when the ' +
+            'previous secret is no longer used and remove it:',
+          code: `const webhooks = new VortexWebhooks({
+  secret: [process.env.VORTEX_WEBHOOK_SECRET!, process.env.VORTEX_WEBHOOK_SECRET_PREVIOUS!],
+});
+
+const { valid, secretIndex } = webhooks.verifySignatureDetailed(rawBody, signatureHeader);
+if (valid && secretIndex > 0) {
+  console.warn('Webhook signed with the previous secret');
+}`,
+        },
+      ],
       example: {
         description: 'Express.js webhook handler',
         code: `import express from 'express';
-import { VortexWebhooks, isWebhookEvent } from '@teamvortexsoftware/vortex-node-22-sdk';
+import { createExpressWebhookHandler } from '@teamvortexsoftware/vortex-node-22-sdk/express';
 
 const app = express();
-const webhooks = new VortexWebhooks({
+
+// The handler reads the raw body itself, so mount it without a JSON body parser
+app.post(
+  '/webhooks/vortex',
+  createExpressWebhookHandler({
+    secret: process.env.VORTEX_WEBHOOK_SECRET!,
+    on: {
+      'invitation.accepted': async (event) => {
+        // User accepted an invitation — activate their account
+        console.log('Invitation accepted:', event.data.targetEmail);
+      },
+      'member.created': async (event) => {
+        // New member joined via invitation
+        console.log('New member:', event.data);
+      },
+    },
+    onError: (err) => console.error('Webhook error:', err),
+  })
+);`,
+      },
+      sections: [
+        {
+          title: 'Framework handlers',
+          guides: [
+            {
+              description:
+                'Handler factories for Express (shown above), Fastify and Next.js ship as separate subpath ' +
+                'exports, so the core package has no framework dependencies. Each one reads the raw body, ' +
+                'verifies the `X-Vortex-Signature` header, runs your handlers, and responds 200, 400 (invalid ' +
+                'signature or payload) or 500 (a handler threw). Mount the Express handler without a JSON body ' +
+                'parser (or after `express.raw()`).',
+            },
+            {
+              description:
+                '**Fastify** — the plugin keeps JSON bodies raw inside its own encapsulated context:',
+              code: `import { vortexWebhooksPlugin } from '@teamvortexsoftware/vortex-node-22-sdk/fastify';
+
+await fastify.register(vortexWebhooksPlugin, {
   secret: process.env.VORTEX_WEBHOOK_SECRET!,
-});
+  path: '/webhooks/vortex',
+  onEvent: async (event) => console.log('Webhook event:', event.type),
+});`,
+            },
+            {
+              description: '**Next.js (App Router)**:',
+              code: `// app/api/webhooks/vortex/route.ts
+import { createNextWebhookHandler } from '@teamvortexsoftware/vortex-node-22-sdk/nextjs';
 
-// Important: Use raw body for signature verification
-app.post('/webhooks/vortex', express.raw({ type: 'application/json' }), (req, res) => {
-  try {
-    const event = webhooks.constructEvent(
-      req.body,
-      req.headers['x-vortex-signature'] as string
-    );
+export const POST = createNextWebhookHandler({
+  secret: process.env.VORTEX_WEBHOOK_SECRET!,
+  on: {
+    'member.created': async (event) => {
+      // New member joined via invitation
+      console.log('New member:', event.data);
+    },
+  },
+});`,
+            },
+            {
+              description:
+                'For other frameworks, call `constructEvent()` with the raw body and signature header, then ' +
+                '`handleEvent()`:',
+              code: `import { VortexWebhooks } from '@teamvortexsoftware/vortex-node-22-sdk';
 
-    if (isWebhookEvent(event)) {
-      switch (event.type) {
-        case 'invitation.accepted':
-          // User accepted an invitation — activate their account
-          console.log('Invitation accepted:', event.data.targetEmail);
-          break;
-        case 'member.created':
-          // New member joined via invitation
-          console.log('New member:', event.data);
-          break;
-      }
+const webhooks = new VortexWebhooks({ secret: process.env.VORTEX_WEBHOOK_SECRET! });
+
+const event = webhooks.constructEvent(rawBody, signatureHeader);
+await webhooks.handleEvent(event, { onEvent: async (event) => console.log(event) });`,
+            },
+          ],
+        },
+        {
+          title: 'Typed event payloads',
+          guides: [
+            {
+              description:
+                '`VortexWebhookEvent` is a discriminated union on `type`, with a data interface for each event ' +
+                '(for example `InvitationAcceptedData` or `InvitationEmailBouncedData`). Handlers in `on` ' +
+                'receive the event narrowed to their key, and checking `event.type` narrows `event.data` ' +
+                'anywhere else:',
+              code: `on: {
+  'invitation.accepted': async (event) => {
+    await db.activateUser(event.data.acceptor?.email, event.data.scopes);
+  },
+  'invitation.email.bounced': async (event) => {
+    console.warn(\`Bounced (\${event.data.bounceReason}):\`, event.data.email);
+  },
+}`,
+            },
+            {
+              description:
+                "Use `VortexWebhookEvent<'invitation.accepted'>` to refer to a single event type.",
+            },
+            {
+              description:
+                'Analytics events work the same way. `onAnalytics` is keyed by `AnalyticsEventTypes` names and ' +
+                'each handler receives a typed `payload`; events with other names go to ' +
+                '`onUnknownAnalyticsEvent`. Both run before `onAnalyticsEvent`:',
+              code: `onAnalytics: {
+  widget_loaded: (event) => warehouse.insert('widget_loads', event),
+  invitation_sent: (event) => warehouse.insert('invitations_sent', { invitationId: event.payload?.invitationId }),
+  share_triggered: (event) => warehouse.insert('shares', { channel: event.payload?.channel }),
+},
+onUnknownAnalyticsEvent: (event) => warehouse.insert('analytics_other', event),`,
+            },
+          ],
+        },
+        {
+          title: 'Routing events',
+          guides: [
+            {
+              description:
+                'Keys in `on` can be an exact event type or a wildcard: `invitation.*` matches every invitation ' +
+                'event, `invitation.email.*` only the email ones, and `*` everything. Any key can take an array ' +
+                'of handlers:',
+              code: `on: {
+  'invitation.accepted': [activateUser, notifyInviter],
+  'invitation.email.*': (event) => metrics.increment(\`email.\${event.type}\`),
+  '*': (event) => auditLog.write(event),
+},`,
+            },
+            {
+              description:
+                'Handlers run in a fixed order: the exact type first, then wildcards from most to least specific ' +
+                '(`invitation.email.*`, `invitation.*`, `*`), then `onEvent`. Arrays run in array order. By ' +
+                'default each handler is awaited before the next, and the first failure stops the rest. Set ' +
+                "`dispatch: 'parallel'` to start them all together, and `stopOnError: false` to run every " +
+                'handler even when one throws. `handleEvent()` then throws the failure, or a ' +
+                '`VortexWebhookHandlerError` listing each one if several failed.',
+            },
+          ],
+        },
+        {
+          title: 'Middleware',
+          guides: [
+            {
+              description:
+                '`use()` adds middleware around event dispatch, for logging, metrics, tenant lookup or ' +
+                'filtering. Middleware runs in registration order before the handlers. Call `next()` to ' +
+                'continue, `next(event)` to pass a transformed event on, or return without calling `next` to ' +
+                'skip the handlers:',
+              code: `webhooks
+  .use(async (event, next) => {
+    // Ignore events from other environments
+    if (event.environmentId === process.env.VORTEX_ENVIRONMENT_ID) {
+      await next();
+    }
+  })
+  .use(async (event, next) => {
+    if (isWebhookEvent(event) && event.type === 'invitation.accepted') {
+      // Enrich the event with the full invitation
+      const invitation = await vortex.getInvitation(event.data.invitationId);
+      return next({ ...event, data: { ...event.data, invitation } });
     }
+    await next();
+  });`,
+            },
+            {
+              description:
+                'The framework handlers take the same list as a `middleware` option. Middleware errors are ' +
+                'reported to `onError` like handler errors.',
+            },
+          ],
+        },
+        {
+          title: 'Validating payloads',
+          guides: [
+            {
+              description:
+                'These types describe the payload but are not checked at runtime. Pass `validate` to have ' +
+                '`constructEvent()` (and the framework handlers) check each verified body against the event ' +
+                "schema and throw `VortexWebhookPayloadError` when it does not match. The error's `issues` list " +
+                'every problem with its field path:',
+              code: `const webhooks = new VortexWebhooks({
+  secret: process.env.VORTEX_WEBHOOK_SECRET!,
+  validate: 'lenient',
+});
 
-    res.json({ received: true });
-  } catch (err) {
-    console.error('Webhook error:', err);
-    res.status(400).send('Webhook Error');
+try {
+  const event = webhooks.constructEvent(rawBody, signatureHeader);
+} catch (err) {
+  if (err instanceof VortexWebhookPayloadError) {
+    console.error(err.issues); // [{ path: 'data.invitationId', message: 'is required' }]
   }
+}`,
+            },
+            {
+              description:
+                "`validate: true` (or `'strict'`) also rejects event types, analytics event names and envelope " +
+                "fields the SDK does not know. `'lenient'` keeps them, so new events and fields from Vortex reach " +
+                'your handlers before you upgrade. Validation is off by default. ' +
+                '`validateWebhookPayload(parsed, mode)` runs the same checks on an already-parsed body and ' +
+                'returns the issues.',
+            },
+          ],
+        },
+        {
+          title: 'Deduplicating events',
+          guides: [
+            {
+              description:
+                'Vortex retries failed deliveries, so the same event can arrive more than once. Pass an ' +
+                '`idempotencyStore` and `handleEvent()` (and the framework handlers) will skip event IDs that ' +
+                'were already processed. An event is recorded only after its handlers resolve, so a handler that ' +
+                'throws gets another chance on redelivery.',
+              code: `import { VortexWebhooks, FileWebhookIdempotencyStore } from '@teamvortexsoftware/vortex-node-22-sdk';
+
+const webhooks = new VortexWebhooks({
+  secret: process.env.VORTEX_WEBHOOK_SECRET!,
+  idempotencyStore: new FileWebhookIdempotencyStore({ path: './data/vortex-webhooks.json' }),
 });`,
-      },
+            },
+            {
+              description:
+                '`MemoryWebhookIdempotencyStore` keeps the most recent IDs in memory (LRU, 10,000 by default). ' +
+                'When several processes receive webhooks, implement `WebhookIdempotencyStore` (`has(eventId)` ' +
+                'and `add(eventId)`, sync or async) on top of Redis or SQL.',
+            },
+          ],
+        },
+      ],
       useCases: [
         {
           title: 'Activate users on acceptance',
@@ -694,10 +1063,12 @@ app.post('/webhooks/vortex', express.raw({ type: 'application/json' }), (req, re
       methods: [
         {
           name: 'constructEvent',
-          signature: 'constructEvent(payload: string | Buffer, signature: string): VortexEvent',
+          signature:
+            'constructEvent(payload: string | Buffer, signature: string, options?: ConstructEventOptions): VortexEvent',
           description:
             'Verify and parse an incoming webhook payload. This is the primary method for webhook handling. ' +
-            'It verifies the HMAC-SHA256 signature and returns a typed event object.',
+            'It verifies the HMAC-SHA256 signature, rejects timestamped signatures outside the tolerance window, ' +
+            'and returns a typed event object.',
           params: [
             {
               name: 'payload',
@@ -710,16 +1081,27 @@ app.post('/webhooks/vortex', express.raw({ type: 'application/json' }), (req, re
               type: 'string',
               description: 'The value of the X-Vortex-Signature header',
             },
+            {
+              name: 'options',
+              type: 'ConstructEventOptions',
+              description:
+                'Optional toleranceSec and validate, overriding the instance settings (default 300 seconds, no validation)',
+            },
           ],
           returns: 'VortexEvent (either VortexWebhookEvent or VortexAnalyticsEvent)',
-          throws: 'VortexWebhookSignatureError if the signature is invalid',
+          throws:
+            'VortexWebhookSignatureError if the signature is invalid, or is a legacy bare-hex signature ' +
+            'and allowLegacySignatures is false; ' +
+            'VortexWebhookTimestampError if the signature timestamp is outside the tolerance window; ' +
+            'VortexWebhookPayloadError if validation is enabled and the payload does not match the event schema',
         },
         {
           name: 'verifySignature',
           signature: 'verifySignature(payload: string | Buffer, signature: string): boolean',
           description:
             'Verify the HMAC-SHA256 signature of an incoming webhook payload without parsing it. ' +
-            'Use this if you need to verify the signature separately from parsing.',
+            'Accepts the timestamped t=...,v1=... format and the legacy bare-hex format, ' +
+            'but does not check the timestamp. Use this if you need to verify the signature separately from parsing.',
           params: [
             {
               name: 'payload',
@@ -734,6 +1116,65 @@ app.post('/webhooks/vortex', express.raw({ type: 'application/json' }), (req, re
           ],
           returns: 'true if the signature is valid, false otherwise',
         },
+        {
+          name: 'verifySignatureDetailed',
+          signature:
+            'verifySignatureDetailed(payload: string | Buffer, signature: string): WebhookSignatureVerificationResult',
+          description:
+            'Verify a webhook signature and report which configured secret matched (secretIndex). ' +
+            'Every secret is checked in constant time. Use this during secret rotation to tell when ' +
+            'the previous secret is no longer in use.',
+          params: [
+            {
+              name: 'payload',
+              type: 'string | Buffer',
+              description: 'The raw request body',
+            },
+            {
+              name: 'signature',
+              type: 'string',
+              description: 'The value of the X-Vortex-Signature header',
+            },
+          ],
+          returns:
+            '{ valid: true, secretIndex } on a match, otherwise { valid: false, secretIndex: null }',
+        },
+        {
+          name: 'signPayload',
+          signature: 'signPayload(payload: string | Buffer, options?: SignPayloadOptions): string',
+          description:
+            'Sign a payload the way Vortex does, producing a timestamped X-Vortex-Signature header value ' +
+            'with the first configured secret. Intended for testing webhook endpoints.',
+          params: [
+            {
+              name: 'payload',
+              type: 'string | Buffer',
+              description: 'The raw request body to sign',
+            },
+            {
+              name: 'options',
+              type: 'SignPayloadOptions',
+              description: 'Optional timestamp in seconds since the epoch (default now)',
+            },
+          ],
+          returns: 'A header value of the form t=<unix seconds>,v1=<hex digest>',
+        },
+        {
+          name: 'use',
+          signature: 'use(middleware: WebhookMiddleware): this',
+          description:
+            'Add middleware around event dispatch in handleEvent. Middleware runs in registration order ' +
+            'and calls next() to continue, next(event) to pass a transformed event, or returns without ' +
+            'calling next to skip the handlers.',
+          params: [
+            {
+              name: 'middleware',
+              type: 'WebhookMiddleware',
+              description: '(event, next) => void | Promise<void>',
+            },
+          ],
+          returns: 'The VortexWebhooks instance, for chaining',
+        },
         {
           name: 'handleEvent',
           signature: 'handleEvent(event: VortexEvent, handlers: WebhookHandlers): Promise<void>',
@@ -750,16 +1191,117 @@ app.post('/webhooks/vortex', express.raw({ type: 'application/json' }), (req, re
               name: 'handlers',
               type: 'WebhookHandlers',
               description:
-                'Handler configuration with on (type-specific handlers), onEvent (all events), onAnalyticsEvent, and onError callbacks',
+                'Handler configuration with on (handlers keyed by event type or wildcard such as invitation.*), onEvent (all events), ' +
+                'onAnalytics (name-specific analytics handlers), onUnknownAnalyticsEvent, onAnalyticsEvent, and onError callbacks, ' +
+                'plus dispatch (sequential or parallel) and stopOnError',
             },
           ],
           returns: 'Promise that resolves when handlers complete',
+          throws:
+            'The handler error, or VortexWebhookHandlerError if stopOnError is false and several handlers failed',
+        },
+      ],
+    },
+    testing: {
+      guides: [
+        {
+          description:
+            '`createMockVortexServer()` starts an in-memory stand-in for the Vortex API, so tests run ' +
+            'without a live API key. It implements the invitation, accept, reinvite, autojoin and ' +
+            'sync-internal-invitation routes, validates request bodies, and delivers signed webhook events ' +
+            'to a registered URL.',
+          code: `import { createMockVortexServer } from '@teamvortexsoftware/vortex-node-22-sdk/testing';
+
+const server = await createMockVortexServer({
+  webhook: { url: 'http://localhost:3000/webhooks/vortex', secret: 'whsec_test' },
+});
+const vortex = new Vortex({ apiKey: process.env.VORTEX_API_KEY!, baseUrl: server.url });
+
+// ...exercise your code, then inspect server.invitations or server.webhookDeliveries
+
+await server.close();`,
+        },
+        {
+          description:
+            'Pass `fetch: server.fetch` instead of `baseUrl` to route requests in-process without a socket. ' +
+            'Each API request waits for the webhook deliveries it triggers; a delivery that gets no ' +
+            'response within `webhookTimeoutMs` (default 5000) is recorded as failed.',
+        },
+        {
+          description:
+            'To unit-test a webhook endpoint, `buildTestWebhookEvent()` builds a realistic event for any ' +
+            '`WebhookEventTypes` or `AnalyticsEventTypes` value, together with its signed request. Sign with ' +
+            '`TEST_WEBHOOK_SECRET` (the default) or your own `secret`:',
+          code: `import { buildTestWebhookEvent, TEST_WEBHOOK_SECRET } from '@teamvortexsoftware/vortex-node-22-sdk/testing';
+
+const app = createApp({ webhookSecret: TEST_WEBHOOK_SECRET });
+const { payload, headers, event } = buildTestWebhookEvent('invitation.accepted', {
+  data: { invitationId: 'inv_123' },
+});
+
+await request(app).post('/webhooks/vortex').set(headers).send(payload);`,
+        },
+        {
+          description:
+            "`webhooks.signPayload(payload)` signs any body with the instance's first secret, producing a " +
+            'timestamped `X-Vortex-Signature` header.',
         },
       ],
     },
     errors: {
       baseException: 'Error',
+      description:
+        'Errors returned by the Vortex API extend `VortexApiError`, which exposes `status`, ' +
+        '`statusText`, `body` (parsed JSON error body), `method`, `path` and `requestId`.',
       types: [
+        {
+          name: 'VortexApiError',
+          description:
+            'Base class for all Vortex API failures. Thrown directly for statuses without a more specific ' +
+            'subclass.',
+        },
+        {
+          name: 'VortexValidationError',
+          description:
+            'Thrown when the API rejects the request as invalid (400, 409, 422). Check `body` for details.',
+        },
+        {
+          name: 'VortexAuthenticationError',
+          description:
+            'Thrown when the API key is missing, invalid, or lacks permission (401, 403).',
+        },
+        {
+          name: 'VortexNotFoundError',
+          description:
+            'Thrown when the requested resource does not exist (404), e.g. an unknown invitation ID.',
+          thrownBy: ['Vortex.getInvitation', 'Vortex.revokeInvitation'],
+        },
+        {
+          name: 'VortexRateLimitError',
+          description:
+            'Thrown when the request was rate limited (429). `retryAfter` holds the seconds from the ' +
+            '`Retry-After` header, if sent.',
+        },
+        {
+          name: 'VortexServerError',
+          description: 'Thrown when the Vortex API failed to process the request (5xx).',
+        },
+        {
+          name: 'VortexTimeoutError',
+          description:
+            'Thrown when an API request exceeds `timeoutMs` (client-wide or per call). Cancelling via ' +
+            "`signal` rejects with the signal's abort reason instead.",
+        },
+        {
+          name: 'VortexTokenError',
+          description:
+            'Thrown by `verifyToken()`, `verifyActiveToken()` and `refreshToken()` when a token is rejected. ' +
+            '`code` gives the reason: `malformed`, `unsupported_algorithm`, `unknown_kid`, ' +
+            '`invalid_signature`, `expired`, `not_yet_valid`, `max_age_exceeded`, `invalid_audience`, ' +
+            '`invalid_issuer`, `revoked` (from `verifyActiveToken()` and `refreshToken()`) or ' +
+            '`wrong_token_type` (a refresh token passed as an access token, or the reverse).',
+          thrownBy: ['Vortex.verifyToken', 'Vortex.verifyActiveToken', 'Vortex.refreshToken'],
+        },
         {
           name: 'VortexWebhookSignatureError',
           description:
@@ -768,6 +1310,27 @@ app.post('/webhooks/vortex', express.raw({ type: 'application/json' }), (req, re
             'and the correct signing secret from your Vortex dashboard.',
           thrownBy: ['VortexWebhooks.constructEvent'],
         },
+        {
+          name: 'VortexWebhookTimestampError',
+          description:
+            'Thrown by `constructEvent()` when a timestamped webhook signature is valid but outside the ' +
+            '`toleranceSec` window, e.g. a replayed request. Extends `VortexWebhookSignatureError`.',
+          thrownBy: ['VortexWebhooks.constructEvent'],
+        },
+        {
+          name: 'VortexWebhookPayloadError',
+          description:
+            'Thrown by `constructEvent()` when `validate` is enabled and the verified body is not valid JSON ' +
+            'or does not match the event schema. `issues` lists each problem with its field path.',
+          thrownBy: ['VortexWebhooks.constructEvent'],
+        },
+        {
+          name: 'VortexWebhookHandlerError',
+          description:
+            'Thrown by `handleEvent()` when `stopOnError` is false and more than one handler failed. ' +
+            '`errors` holds each failure in handler order.',
+          thrownBy: ['VortexWebhooks.handleEvent'],
+        },
         {
           name: 'Error',
           description:
@@ -0,0 +1,270 @@
+/**
+ * Vortex SDK Errors
+ *
+ * Typed errors thrown by `Vortex` API methods when a request fails.
+ * Error responses extend `VortexApiError`, so callers can branch on the
+ * subclass (or on `status`) instead of parsing the message. Requests that
+ * exceed their timeout throw `VortexTimeoutError`, and token verification
+ * failures throw `VortexTokenError`.
+ */
+
+/**
+ * Details about a failed Vortex API request
+ */
+export interface VortexApiErrorDetails {
+  /** HTTP status code returned by the Vortex API */
+  status: number;
+  /** HTTP status text returned by the Vortex API */
+  statusText: string;
+  /** Parsed JSON error body, or the raw text if the body was not JSON */
+  body: unknown;
+  /** HTTP method of the failed request */
+  method: string;
+  /** Request path (without base URL or query string) */
+  path: string;
+  /** Request ID from the `x-request-id` response header, if present */
+  requestId: string | null;
+}
+
+/**
+ * Base class for all errors returned by the Vortex API.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await vortex.getInvitation('inv-123');
+ * } catch (err) {
+ *   if (err instanceof VortexNotFoundError) {
+ *     return null;
+ *   }
+ *   if (err instanceof VortexApiError) {
+ *     console.error(`Vortex ${err.status} (request ${err.requestId})`, err.body);
+ *   }
+ *   throw err;
+ * }
+ * ```
+ */
+export class VortexApiError extends Error {
+  /** HTTP status code returned by the Vortex API */
+  readonly status: number;
+  /** HTTP status text returned by the Vortex API */
+  readonly statusText: string;
+  /** Parsed JSON error body, or the raw text if the body was not JSON */
+  readonly body: unknown;
+  /** HTTP method of the failed request */
+  readonly method: string;
+  /** Request path (without base URL or query string) */
+  readonly path: string;
+  /** Request ID from the `x-request-id` response header, if present */
+  readonly requestId: string | null;
+
+  constructor(message: string, details: VortexApiErrorDetails) {
+    super(message);
+    this.name = 'VortexApiError';
+    this.status = details.status;
+    this.statusText = details.statusText;
+    this.body = details.body;
+    this.method = details.method;
+    this.path = details.path;
+    this.requestId = details.requestId;
+  }
+}
+
+/**
+ * Thrown when the request was rejected as invalid (400, 409, 422).
+ */
+export class VortexValidationError extends VortexApiError {
+  constructor(message: string, details: VortexApiErrorDetails) {
+    super(message, details);
+    this.name = 'VortexValidationError';
+  }
+}
+
+/**
+ * Thrown when the API key is missing, invalid, or not permitted (401, 403).
+ */
+export class VortexAuthenticationError extends VortexApiError {
+  constructor(message: string, details: VortexApiErrorDetails) {
+    super(message, details);
+    this.name = 'VortexAuthenticationError';
+  }
+}
+
+/**
+ * Thrown when the requested resource does not exist (404).
+ */
+export class VortexNotFoundError extends VortexApiError {
+  constructor(message: string, details: VortexApiErrorDetails) {
+    super(message, details);
+    this.name = 'VortexNotFoundError';
+  }
+}
+
+/**
+ * Thrown when the request was rate limited (429).
+ */
+export class VortexRateLimitError extends VortexApiError {
+  /** Seconds to wait before retrying, from the `Retry-After` header */
+  readonly retryAfter: number | null;
+
+  constructor(message: string, details: VortexApiErrorDetails, retryAfter: number | null = null) {
+    super(message, details);
+    this.name = 'VortexRateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Thrown when the Vortex API failed to process the request (5xx).
+ */
+export class VortexServerError extends VortexApiError {
+  constructor(message: string, details: VortexApiErrorDetails) {
+    super(message, details);
+    this.name = 'VortexServerError';
+  }
+}
+
+/**
+ * Thrown when a Vortex API request does not complete within its timeout.
+ * Cancellation through a caller-supplied `AbortSignal` is not a timeout and
+ * rejects with the signal's abort reason instead.
+ */
+export class VortexTimeoutError extends Error {
+  /** The timeout that elapsed, in milliseconds */
+  readonly timeoutMs: number;
+  /** HTTP method of the timed-out request */
+  readonly method: string;
+  /** Request path (without base URL or query string) */
+  readonly path: string;
+
+  constructor(details: { timeoutMs: number; method: string; path: string }) {
+    super(
+      `Vortex API request timed out after ${details.timeoutMs}ms: ${details.method} ${details.path}`
+    );
+    this.name = 'VortexTimeoutError';
+    this.timeoutMs = details.timeoutMs;
+    this.method = details.method;
+    this.path = details.path;
+  }
+}
+
+/**
+ * Reason a token failed verification
+ * - malformed: not a three-part JWT with JSON header and payload
+ * - unsupported_algorithm: the header `alg` is not one this client verifies
+ * - unknown_kid: the header `kid` does not match this client's API key
+ * - invalid_signature: the signature does not match the header and payload
+ * - expired: `exp` is in the past
+ * - not_yet_valid: `iat` or `nbf` is in the future
+ * - max_age_exceeded: `iat` is older than the `maxAge` option allows
+ * - invalid_audience: `aud` does not include the `audience` option
+ * - invalid_issuer: `iss` does not match the `issuer` option
+ * - revoked: `jti` was revoked with `revokeToken()` (only from `verifyActiveToken()` and `refreshToken()`)
+ * - wrong_token_type: a refresh token was passed to `verifyToken()`, or an access token to `refreshToken()`
+ */
+export type VortexTokenErrorCode =
+  | 'malformed'
+  | 'unsupported_algorithm'
+  | 'unknown_kid'
+  | 'invalid_signature'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'max_age_exceeded'
+  | 'invalid_audience'
+  | 'invalid_issuer'
+  | 'revoked'
+  | 'wrong_token_type';
+
+/**
+ * Thrown when `Vortex.verifyToken`, `Vortex.verifyActiveToken` or
+ * `Vortex.refreshToken` rejects a token.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   const payload = vortex.verifyToken(token);
+ * } catch (err) {
+ *   if (err instanceof VortexTokenError && err.code === 'expired') {
+ *     return res.status(401).json({ error: 'token_expired' });
+ *   }
+ *   throw err;
+ * }
+ * ```
+ */
+export class VortexTokenError extends Error {
+  /** Why the token was rejected */
+  readonly code: VortexTokenErrorCode;
+
+  constructor(code: VortexTokenErrorCode, message: string) {
+    super(message);
+    this.name = 'VortexTokenError';
+    this.code = code;
+  }
+}
+
+/**
+ * Parse a `Retry-After` header value (delta-seconds or HTTP date) into seconds.
+ * @internal
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, (date - Date.now()) / 1000);
+}
+
+/**
+ * Build the appropriate `VortexApiError` subclass for a failed response.
+ * @internal
+ */
+export async function createApiError(
+  response: Response,
+  request: { method: string; path: string }
+): Promise<VortexApiError> {
+  const text = await response.text();
+  let body: unknown = text;
+  if (text.trim()) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Not JSON — keep the raw text
+    }
+  }
+
+  const details: VortexApiErrorDetails = {
+    status: response.status,
+    statusText: response.statusText,
+    body,
+    method: request.method,
+    path: request.path,
+    requestId: response.headers.get('x-request-id'),
+  };
+  const message = `Vortex API request failed: ${response.status} ${response.statusText} - ${text}`;
+
+  switch (response.status) {
+    case 400:
+    case 409:
+    case 422:
+      return new VortexValidationError(message, details);
+    case 401:
+    case 403:
+      return new VortexAuthenticationError(message, details);
+    case 404:
+      return new VortexNotFoundError(message, details);
+    case 429:
+      return new VortexRateLimitError(
+        message,
+        details,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    default:
+      if (response.status >= 500) {
+        return new VortexServerError(message, details);
+      }
+      return new VortexApiError(message, details);
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Vortex Webhooks for Express
+ *
+ * Import from the `express` subpath. Only structural types are used here,
+ * so the SDK does not depend on Express.
+ *
+ * ```typescript
+ * import { createExpressWebhookHandler } from '@teamvortexsoftware/vortex-node-22-sdk/express';
+ * ```
+ */
+
+import { createWebhookProcessor, SIGNATURE_HEADER, VortexWebhookHandlerOptions } from './shared';
+
+export type { VortexWebhookHandlerOptions } from './shared';
+
+/** The parts of an Express request the handler uses */
+export interface ExpressWebhookRequest extends AsyncIterable<Buffer | string> {
+  headers: Record<string, string | string[] | undefined>;
+  /** Set by a body parser. Must be a Buffer or string (e.g. from `express.raw()`) if present */
+  body?: unknown;
+  /** False once a body parser has consumed the request stream */
+  readable?: boolean;
+}
+
+/** The parts of an Express response the handler uses */
+export interface ExpressWebhookResponse {
+  status(code: number): ExpressWebhookResponse;
+  json(body: unknown): unknown;
+}
+
+async function readRawBody(req: ExpressWebhookRequest): Promise<string | Buffer | undefined> {
+  if (Buffer.isBuffer(req.body) || typeof req.body === 'string') {
+    return req.body;
+  }
+  // A body parser already consumed and parsed the stream; the raw bytes are gone
+  if (req.body !== undefined || req.readable === false) {
+    return undefined;
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Create an Express route handler that verifies and dispatches Vortex webhooks.
+ *
+ * The handler reads the raw request body itself, so mount it without a JSON
+ * body parser (or after `express.raw()`). It responds 200 once handlers
+ * complete, 400 if the signature or payload is invalid, and 500 if a handler throws.
+ *
+ * @example
+ * ```typescript
+ * app.post(
+ *   '/webhooks/vortex',
+ *   createExpressWebhookHandler({
+ *     secret: process.env.VORTEX_WEBHOOK_SECRET!,
+ *     on: {
+ *       'invitation.accepted': async (event) => {
+ *         await db.activateUser(event.data.targetEmail);
+ *       },
+ *     },
+ *   })
+ * );
+ * ```
+ */
+export function createExpressWebhookHandler(options: VortexWebhookHandlerOptions) {
+  const processWebhook = createWebhookProcessor(options);
+
+  return async function vortexWebhookHandler(
+    req: ExpressWebhookRequest,
+    res: ExpressWebhookResponse
+  ): Promise<void> {
+    const signature = req.headers[SIGNATURE_HEADER];
+    const result = await processWebhook(
+      await readRawBody(req),
+      Array.isArray(signature) ? signature[0] : signature
+    );
+    res.status(result.status).json(result.body);
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Vortex Webhooks for Fastify
+ *
+ * Import from the `fastify` subpath. Only structural types are used here,
+ * so the SDK does not depend on Fastify.
+ *
+ * ```typescript
+ * import { vortexWebhooksPlugin } from '@teamvortexsoftware/vortex-node-22-sdk/fastify';
+ * ```
+ */
+
+import { createWebhookProcessor, SIGNATURE_HEADER, VortexWebhookHandlerOptions } from './shared';
+
+export type { VortexWebhookHandlerOptions } from './shared';
+
+/** Options for `vortexWebhooksPlugin` */
+export type FastifyWebhookPluginOptions = VortexWebhookHandlerOptions & {
+  /** Route path to register. Default: '/webhooks/vortex' */
+  path?: string;
+};
+
+/** The parts of a Fastify request the plugin uses */
+export interface FastifyWebhookRequest {
+  headers: Record<string, string | string[] | undefined>;
+  body: unknown;
+}
+
+/** The parts of a Fastify reply the plugin uses */
+export interface FastifyWebhookReply {
+  code(statusCode: number): FastifyWebhookReply;
+  send(payload: unknown): unknown;
+}
+
+/** The parts of a Fastify instance the plugin uses */
+export interface FastifyWebhookInstance {
+  addContentTypeParser(
+    contentType: string,
+    opts: { parseAs: 'buffer' },
+    parser: (request: unknown, body: Buffer, done: (err: Error | null, body?: unknown) => void) => void
+  ): void;
+  post(
+    path: string,
+    handler: (request: FastifyWebhookRequest, reply: FastifyWebhookReply) => Promise<unknown>
+  ): unknown;
+}
+
+/**
+ * Fastify plugin that registers a POST route for Vortex webhooks.
+ *
+ * Inside the plugin's encapsulated context, JSON bodies are kept as raw
+ * Buffers so the signature can be verified; routes outside the plugin keep
+ * Fastify's default JSON parser. The route responds 200 once handlers
+ * complete, 400 if the signature or payload is invalid, and 500 if a handler throws.
+ *
+ * @example
+ * ```typescript
+ * await fastify.register(vortexWebhooksPlugin, {
+ *   secret: process.env.VORTEX_WEBHOOK_SECRET!,
+ *   path: '/webhooks/vortex',
+ *   on: {
+ *     'invitation.accepted': async (event) => {
+ *       await db.activateUser(event.data.targetEmail);
+ *     },
+ *   },
+ * });
+ * ```
+ */
+export async function vortexWebhooksPlugin(
+  fastify: FastifyWebhookInstance,
+  options: FastifyWebhookPluginOptions
+): Promise<void> {
+  const { path = '/webhooks/vortex', ...handlerOptions } = options;
+  const processWebhook = createWebhookProcessor(handlerOptions);
+
+  fastify.addContentTypeParser('application/json', { parseAs: 'buffer' }, (_request, body, done) => {
+    done(null, body);
+  });
+
+  fastify.post(path, async (request, reply) => {
+    const signature = request.headers[SIGNATURE_HEADER];
+    const rawBody =
+      Buffer.isBuffer(request.body) || typeof request.body === 'string' ? request.body : undefined;
+    const result = await processWebhook(
+      rawBody,
+      Array.isArray(signature) ? signature[0] : signature
+    );
+    return reply.code(result.status).send(result.body);
+  });
+}
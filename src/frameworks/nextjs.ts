@@ -0,0 +1,45 @@
+/**
+ * Vortex Webhooks for Next.js
+ *
+ * Import from the `nextjs` subpath. The handler uses the standard `Request`
+ * and `Response` classes, so the SDK does not depend on Next.js.
+ *
+ * ```typescript
+ * import { createNextWebhookHandler } from '@teamvortexsoftware/vortex-node-22-sdk/nextjs';
+ * ```
+ */
+
+import { createWebhookProcessor, SIGNATURE_HEADER, VortexWebhookHandlerOptions } from './shared';
+
+export type { VortexWebhookHandlerOptions } from './shared';
+
+/**
+ * Create a Next.js App Router `POST` route handler for Vortex webhooks.
+ *
+ * Responds 200 once handlers complete, 400 if the signature or payload is
+ * invalid, and 500 if a handler throws.
+ *
+ * @example
+ * ```typescript
+ * // app/api/webhooks/vortex/route.ts
+ * export const POST = createNextWebhookHandler({
+ *   secret: process.env.VORTEX_WEBHOOK_SECRET!,
+ *   on: {
+ *     'invitation.accepted': async (event) => {
+ *       await db.activateUser(event.data.targetEmail);
+ *     },
+ *   },
+ * });
+ * ```
+ */
+export function createNextWebhookHandler(options: VortexWebhookHandlerOptions) {
+  const processWebhook = createWebhookProcessor(options);
+
+  return async function POST(request: Request): Promise<Response> {
+    const result = await processWebhook(
+      await request.text(),
+      request.headers.get(SIGNATURE_HEADER) ?? undefined
+    );
+    return Response.json(result.body, { status: result.status });
+  };
+}
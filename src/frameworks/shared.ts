@@ -0,0 +1,71 @@
+// Import from the package root; tsup splits modules shared between entries into common
+// chunks, so the errors passed to onError are the same classes users import from the root
+import {
+  VortexWebhooks,
+  VortexWebhooksOptions,
+  VortexWebhookSignatureError,
+  WebhookHandlers,
+} from '../index';
+
+/**
+ * Options accepted by every framework handler factory: the webhook signing
+ * options plus the handler configuration.
+ */
+export type VortexWebhookHandlerOptions = VortexWebhooksOptions & WebhookHandlers;
+
+/**
+ * Framework-neutral result of processing one webhook request.
+ * @internal
+ */
+export interface WebhookHandlerResult {
+  status: number;
+  body: { received: true } | { error: string };
+}
+
+/** Header carrying the webhook signature (lowercase, as Node and fetch expose it) */
+export const SIGNATURE_HEADER = 'x-vortex-signature';
+
+/**
+ * Create the `VortexWebhooks` instance and handler configuration for a factory.
+ * @internal
+ */
+export function createWebhookProcessor(options: VortexWebhookHandlerOptions) {
+  const { secret, toleranceSec, idempotencyStore, validate, middleware, ...handlers } = options;
+  const webhooks = new VortexWebhooks({
+    secret,
+    toleranceSec,
+    idempotencyStore,
+    validate,
+    middleware,
+  });
+
+  /**
+   * Verify, parse and dispatch one webhook request.
+   * Verification and parse failures map to 400, handler failures to 500.
+   */
+  return async function processWebhook(
+    rawBody: string | Buffer | undefined,
+    signature: string | undefined
+  ): Promise<WebhookHandlerResult> {
+    let event;
+    try {
+      if (rawBody === undefined) {
+        throw new VortexWebhookSignatureError(
+          'Webhook request has no raw body. Ensure no JSON body parser runs before the Vortex webhook handler.'
+        );
+      }
+      event = webhooks.constructEvent(rawBody, signature ?? '');
+    } catch (err) {
+      handlers.onError?.(err as Error);
+      return { status: 400, body: { error: (err as Error).message } };
+    }
+
+    try {
+      // handleEvent reports handler errors to onError itself
+      await webhooks.handleEvent(event, handlers);
+    } catch {
+      return { status: 500, body: { error: 'Webhook handler failed' } };
+    }
+    return { status: 200, body: { received: true } };
+  };
+}
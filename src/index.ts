@@ -1,5 +1,10 @@
 export * from './vortex';
 export * from './types';
+export * from './errors';
 export * from './webhooks';
 export * from './webhook-types';
+export * from './webhook-idempotency';
+export * from './webhook-validation';
+export * from './token-revocation';
+export * from './token-refresh';
 export * from './decorators';
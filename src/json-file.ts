@@ -0,0 +1,79 @@
+/**
+ * JSON file persistence shared by the file-backed stores.
+ * @internal
+ */
+
+import { promises as fs } from 'node:fs';
+import nodePath from 'node:path';
+
+export interface JsonFileOptions<T> {
+  /** Path of the JSON file. Created on first write. */
+  path: string;
+  /** Used in the error thrown for a file `parse` rejects, e.g. 'webhook idempotency' */
+  description: string;
+  /** State to start from when the file does not exist yet */
+  empty: () => T;
+  /** Build the state from the parsed file, or return undefined if the file is invalid */
+  parse: (json: unknown) => T | undefined;
+}
+
+/**
+ * State loaded once from a JSON file and written back atomically.
+ *
+ * A failed read or write only fails the call that hit it: the next `load()`
+ * reads the file again, and later `save()` calls still run.
+ */
+export class JsonFile<T> {
+  private loaded: Promise<T> | undefined;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: JsonFileOptions<T>) {}
+
+  /** The state, read from the file on first use */
+  load(): Promise<T> {
+    if (!this.loaded) {
+      const loading = this.read();
+      this.loaded = loading;
+      loading.catch(() => {
+        // Forget the failure so the next call reads the file again
+        if (this.loaded === loading) this.loaded = undefined;
+      });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Write `serialize()` to the file. Writes run one at a time, so a slow
+   * write never overwrites a newer one.
+   */
+  save(serialize: () => unknown): Promise<void> {
+    const write = this.writing.then(() => this.write(serialize()));
+    // Keep the chain usable after a failed write; the caller still sees the failure
+    this.writing = write.catch(() => undefined);
+    return write;
+  }
+
+  private async read(): Promise<T> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.options.path, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return this.options.empty();
+      throw err;
+    }
+    const state = this.options.parse(JSON.parse(text));
+    if (state === undefined) {
+      throw new Error(`Invalid ${this.options.description} file: ${this.options.path}`);
+    }
+    return state;
+  }
+
+  private async write(json: unknown): Promise<void> {
+    const { path } = this.options;
+    await fs.mkdir(nodePath.dirname(path), { recursive: true });
+    // Write to a temporary file and rename, so a crash never leaves a truncated file
+    const tmpPath = `${path}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(json));
+    await fs.rename(tmpPath, path);
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Asymmetric token signing keys (ES256 and EdDSA).
+ *
+ * Internal helpers behind `VortexClientOptions.signingKey`: they resolve
+ * configured keys, sign and verify JWT signing input, and export public keys
+ * as JWKs.
+ */
+
+import crypto, { KeyObject } from 'node:crypto';
+import type { AsymmetricTokenAlgorithm, TokenJsonWebKey, TokenSigningKey } from './types';
+
+/** A configured signing key with its algorithm and key ID resolved */
+export interface ResolvedSigningKey {
+  kid: string;
+  alg: AsymmetricTokenAlgorithm;
+  /** Null for verification-only (public) keys */
+  privateKey: KeyObject | null;
+  publicKey: KeyObject;
+}
+
+function toKeyObject(key: string | KeyObject): KeyObject {
+  if (typeof key !== 'string') {
+    if (key.type === 'secret') {
+      throw new Error('signingKey must be an asymmetric (ES256 or Ed25519) key, not a secret key');
+    }
+    return key;
+  }
+  return key.includes('PRIVATE KEY') ? crypto.createPrivateKey(key) : crypto.createPublicKey(key);
+}
+
+function algorithmFor(key: KeyObject): AsymmetricTokenAlgorithm {
+  if (key.asymmetricKeyType === 'ed25519') {
+    return 'EdDSA';
+  }
+  if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+    return 'ES256';
+  }
+  const curve = key.asymmetricKeyDetails?.namedCurve;
+  throw new Error(
+    `Unsupported signingKey type: "${key.asymmetricKeyType}${curve ? ` (${curve})` : ''}". ` +
+      'Use an EC P-256 (ES256) or Ed25519 (EdDSA) key.'
+  );
+}
+
+/**
+ * RFC 7638 JWK thumbprint: SHA-256 over the required public members, in
+ * lexicographic order.
+ */
+function jwkThumbprint(publicKey: KeyObject): string {
+  const jwk = publicKey.export({ format: 'jwk' });
+  const members =
+    jwk.kty === 'EC'
+      ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }
+      : { crv: jwk.crv, kty: jwk.kty, x: jwk.x };
+  return crypto.createHash('sha256').update(JSON.stringify(members)).digest('base64url');
+}
+
+export function resolveSigningKey(input: TokenSigningKey): ResolvedSigningKey {
+  const key = toKeyObject(input.key);
+  const privateKey = key.type === 'private' ? key : null;
+  const publicKey = privateKey ? crypto.createPublicKey(privateKey) : key;
+  return {
+    kid: input.kid ?? jwkThumbprint(publicKey),
+    alg: algorithmFor(key),
+    privateKey,
+    publicKey,
+  };
+}
+
+/** Sign JWT signing input (`header.payload`) with a private signing key */
+export function signWithKey(key: ResolvedSigningKey, data: string): Buffer {
+  if (!key.privateKey) {
+    throw new Error(`Signing key "${key.kid}" is a public key and cannot sign tokens`);
+  }
+  return key.alg === 'ES256'
+    ? crypto.sign('sha256', Buffer.from(data), { key: key.privateKey, dsaEncoding: 'ieee-p1363' })
+    : crypto.sign(null, Buffer.from(data), key.privateKey);
+}
+
+/** Verify a JWT signature made with `signWithKey` */
+export function verifyWithKey(key: ResolvedSigningKey, data: string, signature: Buffer): boolean {
+  return key.alg === 'ES256'
+    ? crypto.verify(
+        'sha256',
+        Buffer.from(data),
+        { key: key.publicKey, dsaEncoding: 'ieee-p1363' },
+        signature
+      )
+    : crypto.verify(null, Buffer.from(data), key.publicKey, signature);
+}
+
+/** The public half of a signing key as a JWK */
+export function toJwk(key: ResolvedSigningKey): TokenJsonWebKey {
+  const jwk = key.publicKey.export({ format: 'jwk' });
+  return {
+    kty: jwk.kty as TokenJsonWebKey['kty'],
+    crv: jwk.crv as TokenJsonWebKey['crv'],
+    x: jwk.x as string,
+    ...(jwk.y ? { y: jwk.y } : {}),
+    kid: key.kid,
+    alg: key.alg,
+    use: 'sig',
+  };
+}
@@ -0,0 +1,923 @@
+/**
+ * Vortex SDK Testing Utilities
+ *
+ * An in-memory stand-in for the Vortex API, so code that uses the `Vortex`
+ * client can be tested offline. It implements the REST routes the client
+ * calls, keeps invitation, acceptance and autojoin state in memory, and
+ * delivers signed webhook events to a registered URL. `buildTestWebhookEvent`
+ * builds signed events for unit-testing webhook endpoints directly.
+ *
+ * Import from the `testing` subpath so it is never bundled into production code:
+ *
+ * ```typescript
+ * import { createMockVortexServer } from '@teamvortexsoftware/vortex-node-22-sdk/testing';
+ * ```
+ */
+
+import crypto from 'node:crypto';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type {
+  AutojoinDomain,
+  InvitationAcceptance,
+  InvitationResult,
+  InvitationScope,
+  InvitationTarget,
+} from './types';
+import type {
+  AnalyticsEventPayloadMap,
+  AnalyticsEventType,
+  InvitationEventData,
+  VortexAnalyticsEvent,
+  VortexWebhookEvent,
+  WebhookEventDataMap,
+  WebhookEventType,
+} from './webhook-types';
+// From the package root, whose classes tsup shares with this entry through a common chunk
+import { VortexWebhooks } from './index';
+
+// ─── Types ─────────────────────────────────────────────────────────────
+
+/** Where and how the mock server delivers webhook events */
+export interface MockWebhookEndpoint {
+  /** URL that receives a POST for every event */
+  url: string;
+  /** Signing secret, as configured on `VortexWebhooks` */
+  secret: string;
+}
+
+export interface MockVortexServerOptions {
+  /**
+   * API key the server accepts. When set, requests with a different
+   * `x-api-key` header are rejected with 401. When omitted, any key is accepted.
+   */
+  apiKey?: string;
+  /** Port to listen on. Default: a random free port */
+  port?: number;
+  /** Account ID stamped on invitations and webhook events. Default: 'acc_mock' */
+  accountId?: string;
+  /** Webhook endpoint to deliver events to (see also `registerWebhook`) */
+  webhook?: MockWebhookEndpoint;
+  /** `fetch` implementation used to deliver webhooks. Default: global `fetch` */
+  fetch?: typeof fetch;
+  /**
+   * How long to wait for the webhook endpoint to respond, in milliseconds.
+   * The API request that triggered the event waits for its delivery, so an
+   * endpoint that never responds fails the delivery instead of hanging the
+   * request. Default: 5000
+   */
+  webhookTimeoutMs?: number;
+}
+
+/** A request received by the mock server */
+export interface MockVortexRequest {
+  method: string;
+  /** Request path (without query string) */
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/** The outcome of delivering one webhook event */
+export interface MockWebhookDelivery {
+  event: VortexWebhookEvent;
+  url: string;
+  /** HTTP status returned by the endpoint, or null if delivery failed */
+  status: number | null;
+  /** Why delivery failed, if it did */
+  error?: string;
+}
+
+/** Autojoin configuration stored for one scope */
+export interface MockAutojoinState {
+  autojoinDomains: AutojoinDomain[];
+  invitationId: string | null;
+}
+
+export interface MockVortexServer {
+  /** Base URL of the running server; pass as `baseUrl` to `Vortex` */
+  readonly url: string;
+  /**
+   * A `fetch` that routes requests to the mock without opening a socket.
+   * Pass as the `fetch` option to `Vortex`.
+   */
+  readonly fetch: typeof fetch;
+  /** Invitations by ID */
+  readonly invitations: Map<string, InvitationResult>;
+  /** Autojoin configuration by `${scopeType}/${scope}` */
+  readonly autojoin: Map<string, MockAutojoinState>;
+  /** Every API request received, oldest first */
+  readonly requests: MockVortexRequest[];
+  /** Every webhook delivery attempted, oldest first */
+  readonly webhookDeliveries: MockWebhookDelivery[];
+  /** Deliver webhook events to this endpoint (replaces any previous endpoint) */
+  registerWebhook(endpoint: MockWebhookEndpoint): void;
+  /** Clear all invitations, autojoin configuration, requests and deliveries */
+  reset(): void;
+  /** Stop the server */
+  close(): Promise<void>;
+}
+
+// ─── Request Handling ──────────────────────────────────────────────────
+
+interface MockResponse {
+  status: number;
+  body?: unknown;
+}
+
+class MockHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'MockHttpError';
+  }
+}
+
+/** How long webhook deliveries wait for a response unless configured */
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 5000;
+
+/** Maps `getInvitationsByTarget` target types to invitation target types */
+const TARGET_TYPE_MAP: Record<string, InvitationTarget['type']> = {
+  email: 'email',
+  phoneNumber: 'phone',
+  username: 'internal',
+};
+
+function badRequest(message: string): never {
+  throw new MockHttpError(400, message);
+}
+
+function requireString(body: Record<string, any>, field: string, label = field): string {
+  const value = body[field];
+  if (typeof value !== 'string' || !value) {
+    badRequest(`${label} must be a non-empty string`);
+  }
+  return value;
+}
+
+function requireObject(value: unknown, label: string): Record<string, any> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    badRequest(`${label} must be an object`);
+  }
+  return value as Record<string, any>;
+}
+
+function paginate<T>(items: T[], query: Record<string, string>) {
+  const offset = query.cursor ? Number(query.cursor) : 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    badRequest('cursor is invalid');
+  }
+  const limit = query.limit ? Number(query.limit) : items.length;
+  if (!Number.isInteger(limit) || limit < 0) {
+    badRequest('limit must be a non-negative integer');
+  }
+  const end = offset + limit;
+  return {
+    invitations: items.slice(offset, end),
+    nextCursor: end < items.length ? String(end) : null,
+  };
+}
+
+/**
+ * Create an in-memory mock of the Vortex API and start it on a local port.
+ *
+ * @example
+ * ```typescript
+ * const server = await createMockVortexServer({
+ *   webhook: { url: 'http://localhost:3000/webhooks/vortex', secret: 'whsec_test' },
+ * });
+ * const vortex = new Vortex({ apiKey: 'VRTX.dGVzdGlk.dGVzdGtleQ', baseUrl: server.url });
+ *
+ * const { id } = await vortex.createInvitation({
+ *   widgetConfigurationId: 'widget-config-123',
+ *   target: { type: 'email', value: 'invitee@example.com' },
+ *   inviter: { userId: 'user-456' },
+ * });
+ * await vortex.acceptInvitation(id, { email: 'invitee@example.com' });
+ *
+ * await server.close();
+ * ```
+ */
+export async function createMockVortexServer(
+  options: MockVortexServerOptions = {}
+): Promise<MockVortexServer> {
+  const accountId = options.accountId ?? 'acc_mock';
+  const invitations = new Map<string, InvitationResult>();
+  const autojoin = new Map<string, MockAutojoinState>();
+  const requests: MockVortexRequest[] = [];
+  const webhookDeliveries: MockWebhookDelivery[] = [];
+  const webhookTimeoutMs = options.webhookTimeoutMs ?? DEFAULT_WEBHOOK_TIMEOUT_MS;
+  let webhook = options.webhook;
+  let baseUrl = '';
+
+  const now = () => new Date().toISOString();
+
+  function getInvitation(id: string): InvitationResult {
+    const invitation = invitations.get(id);
+    if (!invitation) {
+      throw new MockHttpError(404, `Invitation ${id} not found`);
+    }
+    return invitation;
+  }
+
+  function invitationsInScope(scopeType: string, scope: string): InvitationResult[] {
+    return [...invitations.values()].filter((invitation) =>
+      invitation.groups.some((group) => group.type === scopeType && group.groupId === scope)
+    );
+  }
+
+  function buildScopes(groups: unknown): InvitationScope[] {
+    if (groups === undefined) return [];
+    if (!Array.isArray(groups)) badRequest('groups must be an array');
+    return groups.map((input) => {
+      const group = requireObject(input, 'group');
+      const groupId = requireString(group, 'groupId', 'group.groupId');
+      return {
+        id: crypto.randomUUID(),
+        accountId,
+        scopeId: groupId,
+        groupId,
+        type: requireString(group, 'type', 'group.type'),
+        name: typeof group.name === 'string' ? group.name : groupId,
+        createdAt: now(),
+      };
+    });
+  }
+
+  function buildInvitation(fields: {
+    target: InvitationTarget[];
+    groups: InvitationScope[];
+    foreignCreatorId: string;
+    widgetConfigurationId: string;
+    invitationType: InvitationResult['invitationType'];
+    source?: string;
+    subtype?: string | null;
+    attributes?: Record<string, any> | null;
+  }): InvitationResult {
+    const invitation: InvitationResult = {
+      id: crypto.randomUUID(),
+      accountId,
+      clickThroughs: 0,
+      formSubmissionData: null,
+      configurationAttributes: null,
+      attributes: fields.attributes ?? null,
+      createdAt: now(),
+      deactivated: false,
+      deliveryCount: 0,
+      deliveryTypes: fields.target.map((target) => target.type),
+      foreignCreatorId: fields.foreignCreatorId,
+      invitationType: fields.invitationType,
+      modifiedAt: null,
+      status: 'queued',
+      views: 0,
+      widgetConfigurationId: fields.widgetConfigurationId,
+      scopes: fields.groups,
+      groups: fields.groups,
+      accepts: [],
+      expired: false,
+      source: fields.source,
+      subtype: fields.subtype ?? null,
+      target: fields.target,
+    };
+    invitations.set(invitation.id, invitation);
+    return invitation;
+  }
+
+  function touch(invitation: InvitationResult, changes: Partial<InvitationResult>) {
+    Object.assign(invitation, changes, { modifiedAt: now() });
+  }
+
+  async function emit<
+    T extends 'invitation.created' | 'invitation.accepted' | 'invitation.deactivated'
+  >(
+    type: T,
+    operation: VortexWebhookEvent['operation'],
+    invitation: InvitationResult,
+    data: Partial<WebhookEventDataMap[T]> = {}
+  ): Promise<void> {
+    if (!webhook) return;
+    const [target] = invitation.target;
+    const event = {
+      id: `evt_${crypto.randomUUID()}`,
+      type,
+      timestamp: now(),
+      accountId,
+      environmentId: null,
+      sourceTable: 'invitations',
+      operation,
+      data: {
+        invitationId: invitation.id,
+        invitationType: invitation.invitationType,
+        status: invitation.status,
+        foreignCreatorId: invitation.foreignCreatorId,
+        widgetConfigurationId: invitation.widgetConfigurationId,
+        target: target && { type: target.type, value: target.value, name: target.name ?? null },
+        scopes: invitation.groups.map((group) => ({
+          scopeId: group.groupId,
+          type: group.type,
+          name: group.name,
+        })),
+        ...data,
+      },
+    } as VortexWebhookEvent;
+    const payload = JSON.stringify(event);
+    const signature = new VortexWebhooks({ secret: webhook.secret }).signPayload(payload);
+    const delivery: MockWebhookDelivery = { event, url: webhook.url, status: null };
+    webhookDeliveries.push(delivery);
+    try {
+      const response = await (options.fetch ?? fetch)(webhook.url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'x-vortex-signature': signature },
+        body: payload,
+        signal: AbortSignal.timeout(webhookTimeoutMs),
+      });
+      delivery.status = response.status;
+    } catch (err) {
+      delivery.error = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  function acceptedTarget(user: Record<string, any>): InvitationTarget {
+    if (typeof user.email === 'string' && user.email) {
+      return { type: 'email', value: user.email, name: user.name ?? null };
+    }
+    if (typeof user.phone === 'string' && user.phone) {
+      return { type: 'phone', value: user.phone, name: user.name ?? null };
+    }
+    return badRequest('user must have either email or phone');
+  }
+
+  async function route(
+    method: string,
+    path: string,
+    query: Record<string, string>,
+    body: unknown
+  ): Promise<MockResponse> {
+    const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+    if (segments[0] !== 'api' || segments[1] !== 'v1' || segments[2] !== 'invitations') {
+      throw new MockHttpError(404, `No route for ${method} ${path}`);
+    }
+    const [, , , first, second, third, fourth] = segments;
+
+    // /api/v1/invitations
+    if (first === undefined) {
+      if (method === 'GET') {
+        const targetType = TARGET_TYPE_MAP[query.targetType];
+        if (!targetType) badRequest('targetType must be email, username or phoneNumber');
+        if (!query.targetValue) badRequest('targetValue is required');
+        const matches = [...invitations.values()].filter((invitation) =>
+          invitation.target.some(
+            (target) => target.type === targetType && target.value === query.targetValue
+          )
+        );
+        return { status: 200, body: paginate(matches, query) };
+      }
+      if (method === 'POST') {
+        const params = requireObject(body, 'body');
+        const widgetConfigurationId = requireString(params, 'widgetConfigurationId');
+        const target = requireObject(params.target, 'target');
+        if (!['email', 'phone', 'internal'].includes(target.type)) {
+          badRequest('target.type must be email, phone or internal');
+        }
+        const inviter = requireObject(params.inviter, 'inviter');
+        const invitation = buildInvitation({
+          target: [
+            {
+              type: target.type,
+              value: requireString(target, 'value', 'target.value'),
+              name: target.name ?? null,
+              avatarUrl: target.avatarUrl ?? null,
+            },
+          ],
+          groups: buildScopes(params.groups),
+          foreignCreatorId: requireString(inviter, 'userId', 'inviter.userId'),
+          widgetConfigurationId,
+          invitationType: 'single_use',
+          source: typeof params.source === 'string' ? params.source : 'api',
+          subtype: params.subtype,
+          attributes: params.metadata ?? null,
+        });
+        await emit('invitation.created', 'insert', invitation);
+        return {
+          status: 200,
+          body: {
+            id: invitation.id,
+            shortLink: `${baseUrl}/i/${invitation.id}`,
+            status: invitation.status,
+            createdAt: invitation.createdAt,
+          },
+        };
+      }
+    }
+
+    // /api/v1/invitations/accept
+    if (first === 'accept' && second === undefined && method === 'POST') {
+      const params = requireObject(body, 'body');
+      const ids = params.invitationIds;
+      if (!Array.isArray(ids) || ids.length === 0 || ids.some((id) => typeof id !== 'string')) {
+        badRequest('invitationIds must be a non-empty array of strings');
+      }
+      const target = acceptedTarget(requireObject(params.user, 'user'));
+      const accepted = (ids as string[]).map(getInvitation);
+      for (const invitation of accepted) {
+        if (invitation.deactivated) {
+          throw new MockHttpError(409, `Invitation ${invitation.id} is no longer active`);
+        }
+      }
+      for (const invitation of accepted) {
+        const acceptance: InvitationAcceptance = {
+          id: crypto.randomUUID(),
+          accountId,
+          acceptedAt: now(),
+          target,
+        };
+        touch(invitation, {
+          status: 'accepted',
+          accepts: [...(invitation.accepts ?? []), acceptance],
+        });
+        await emit('invitation.accepted', 'update', invitation, {
+          acceptor: { [target.type]: target.value, name: target.name },
+          acceptedAt: acceptance.acceptedAt,
+        });
+      }
+      return { status: 200, body: accepted[accepted.length - 1] };
+    }
+
+    // /api/v1/invitations/autojoin
+    if (first === 'autojoin' && second === undefined && method === 'POST') {
+      const params = requireObject(body, 'body');
+      const scope = requireString(params, 'scope');
+      const scopeType = requireString(params, 'scopeType');
+      const componentId = requireString(params, 'componentId');
+      const domains = params.domains;
+      if (!Array.isArray(domains) || domains.some((domain) => typeof domain !== 'string')) {
+        badRequest('domains must be an array of strings');
+      }
+
+      const key = `${scopeType}/${scope}`;
+      const existing = autojoin.get(key) ?? { autojoinDomains: [], invitationId: null };
+      const autojoinDomains = (domains as string[]).map(
+        (domain) =>
+          existing.autojoinDomains.find((d) => d.domain === domain) ?? {
+            id: crypto.randomUUID(),
+            domain,
+          }
+      );
+
+      let invitation = existing.invitationId ? invitations.get(existing.invitationId) : undefined;
+      if (autojoinDomains.length === 0) {
+        if (invitation && !invitation.deactivated) {
+          touch(invitation, { deactivated: true });
+          await emit('invitation.deactivated', 'update', invitation, { reason: 'revoked' });
+        }
+        autojoin.set(key, { autojoinDomains, invitationId: null });
+        return { status: 200, body: { autojoinDomains, invitation: null } };
+      }
+
+      if (!invitation || invitation.deactivated) {
+        invitation = buildInvitation({
+          target: [],
+          groups: buildScopes([{ groupId: scope, type: scopeType, name: params.scopeName }]),
+          foreignCreatorId: '',
+          widgetConfigurationId: componentId,
+          invitationType: 'autojoin',
+          attributes: params.metadata ?? null,
+        });
+        await emit('invitation.created', 'insert', invitation);
+      }
+      autojoin.set(key, { autojoinDomains, invitationId: invitation.id });
+      return { status: 200, body: { autojoinDomains, invitation } };
+    }
+
+    // /api/v1/invitations/sync-internal-invitation
+    if (first === 'sync-internal-invitation' && second === undefined && method === 'POST') {
+      const params = requireObject(body, 'body');
+      const creatorId = requireString(params, 'creatorId');
+      const targetValue = requireString(params, 'targetValue');
+      requireString(params, 'componentId');
+      if (params.action !== 'accepted' && params.action !== 'declined') {
+        badRequest('action must be accepted or declined');
+      }
+
+      const pending = [...invitations.values()].filter(
+        (invitation) =>
+          !invitation.deactivated &&
+          invitation.status !== 'accepted' &&
+          invitation.foreignCreatorId === creatorId &&
+          invitation.target.some((t) => t.type === 'internal' && t.value === targetValue)
+      );
+      for (const invitation of pending) {
+        if (params.action === 'accepted') {
+          touch(invitation, { status: 'accepted' });
+          await emit('invitation.accepted', 'update', invitation, {
+            acceptor: { userId: targetValue },
+            acceptedAt: invitation.modifiedAt ?? now(),
+          });
+        } else {
+          touch(invitation, { deactivated: true });
+          await emit('invitation.deactivated', 'update', invitation, { reason: 'declined' });
+        }
+      }
+      return {
+        status: 200,
+        body: { processed: pending.length, invitationIds: pending.map((i) => i.id) },
+      };
+    }
+
+    // /api/v1/invitations/by-scope/:scopeType/:scope[/autojoin]
+    if (first === 'by-scope' && second && third) {
+      if (fourth === 'autojoin' && method === 'GET') {
+        const state = autojoin.get(`${second}/${third}`);
+        const invitation = state?.invitationId ? invitations.get(state.invitationId) : undefined;
+        return {
+          status: 200,
+          body: {
+            autojoinDomains: state?.autojoinDomains ?? [],
+            invitation: invitation && !invitation.deactivated ? invitation : null,
+          },
+        };
+      }
+      if (fourth === undefined && method === 'GET') {
+        return { status: 200, body: paginate(invitationsInScope(second, third), query) };
+      }
+      if (fourth === undefined && method === 'DELETE') {
+        for (const invitation of invitationsInScope(second, third)) {
+          if (!invitation.deactivated) {
+            touch(invitation, { deactivated: true });
+            await emit('invitation.deactivated', 'update', invitation, { reason: 'revoked' });
+          }
+        }
+        return { status: 200, body: {} };
+      }
+    }
+
+    // /api/v1/invitations/:id[/reinvite]
+    if (first && second === undefined) {
+      if (method === 'GET') {
+        return { status: 200, body: getInvitation(first) };
+      }
+      if (method === 'DELETE') {
+        const invitation = getInvitation(first);
+        if (!invitation.deactivated) {
+          touch(invitation, { deactivated: true });
+          await emit('invitation.deactivated', 'update', invitation, { reason: 'revoked' });
+        }
+        return { status: 200, body: {} };
+      }
+    }
+    if (first && second === 'reinvite' && third === undefined && method === 'POST') {
+      const invitation = getInvitation(first);
+      if (invitation.deactivated) {
+        throw new MockHttpError(409, `Invitation ${invitation.id} is no longer active`);
+      }
+      touch(invitation, { status: 'sent', deliveryCount: invitation.deliveryCount + 1 });
+      return { status: 200, body: invitation };
+    }
+
+    throw new MockHttpError(404, `No route for ${method} ${path}`);
+  }
+
+  async function handle(request: MockVortexRequest): Promise<MockResponse> {
+    requests.push(request);
+    if (options.apiKey && request.headers['x-api-key'] !== options.apiKey) {
+      return { status: 401, body: { error: 'Invalid API key' } };
+    }
+    try {
+      return await route(request.method, request.path, request.query, request.body);
+    } catch (err) {
+      if (err instanceof MockHttpError) {
+        return { status: err.status, body: { error: err.message } };
+      }
+      throw err;
+    }
+  }
+
+  function parseBody(text: string): unknown {
+    if (!text) return undefined;
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url ?? '/', baseUrl);
+      const headers: Record<string, string> = {};
+      for (const [name, value] of Object.entries(req.headers)) {
+        if (typeof value === 'string') headers[name] = value;
+      }
+      handle({
+        method: req.method ?? 'GET',
+        path: url.pathname,
+        query: Object.fromEntries(url.searchParams),
+        headers,
+        body: parseBody(Buffer.concat(chunks).toString('utf8')),
+      }).then(
+        (response) => {
+          res.writeHead(response.status, { 'content-type': 'application/json' });
+          res.end(response.body === undefined ? '' : JSON.stringify(response.body));
+        },
+        (err) => {
+          res.writeHead(500, { 'content-type': 'application/json' });
+          res.end(JSON.stringify({ error: err instanceof Error ? err.message : String(err) }));
+        }
+      );
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const mockFetch = async (input: string | URL | Request, init?: RequestInit) => {
+    const request = new Request(input, init);
+    request.signal.throwIfAborted();
+    const url = new URL(request.url);
+    const response = await handle({
+      method: request.method,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: Object.fromEntries(request.headers),
+      body: parseBody(await request.text()),
+    });
+    return new Response(response.body === undefined ? null : JSON.stringify(response.body), {
+      status: response.status,
+      headers: { 'content-type': 'application/json' },
+    });
+  };
+
+  return {
+    url: baseUrl,
+    fetch: mockFetch as typeof fetch,
+    invitations,
+    autojoin,
+    requests,
+    webhookDeliveries,
+    registerWebhook(endpoint) {
+      webhook = endpoint;
+    },
+    reset() {
+      invitations.clear();
+      autojoin.clear();
+      requests.length = 0;
+      webhookDeliveries.length = 0;
+    },
+    close() {
+      return new Promise<void>((resolve, reject) => {
+        server.close((err) => (err ? reject(err) : resolve()));
+      });
+    },
+  };
+}
+
+// ─── Test Events ───────────────────────────────────────────────────────
+
+/** Secret `buildTestWebhookEvent` signs with unless given another */
+export const TEST_WEBHOOK_SECRET = 'whsec_vortex_test_secret';
+
+/** The event `buildTestWebhookEvent` returns for a webhook event type or analytics event name */
+export type TestEvent<T extends WebhookEventType | AnalyticsEventType> = T extends WebhookEventType
+  ? VortexWebhookEvent<T>
+  : T extends AnalyticsEventType
+    ? VortexAnalyticsEvent<T>
+    : never;
+
+/**
+ * Fields to override on a test event. `data` (webhook events) and
+ * `payload` (analytics events) are merged into the defaults; other fields
+ * replace them.
+ */
+export type TestEventOverrides<T extends WebhookEventType | AnalyticsEventType> =
+  T extends WebhookEventType
+    ? Partial<Omit<VortexWebhookEvent<T>, 'data'>> & { data?: Partial<WebhookEventDataMap[T]> }
+    : T extends AnalyticsEventType
+      ? Partial<Omit<VortexAnalyticsEvent<T>, 'payload'>> & {
+          payload?: Partial<AnalyticsEventPayloadMap[T]> | null;
+        }
+      : never;
+
+export interface BuildTestWebhookEventOptions {
+  /** Secret to sign with, as configured on `VortexWebhooks`. Default: `TEST_WEBHOOK_SECRET` */
+  secret?: string;
+  /** Signature timestamp, in seconds since the epoch. Default: now */
+  timestamp?: number;
+}
+
+/** A test event with the signed request Vortex would send for it */
+export interface TestWebhookEvent<E> {
+  event: E;
+  /** The raw JSON request body */
+  payload: string;
+  /** The `X-Vortex-Signature` header value for `payload` */
+  signature: string;
+  /** Request headers to send with `payload` */
+  headers: Record<string, string>;
+}
+
+/** Envelope defaults for each webhook event type */
+const TEST_EVENT_SOURCES: Record<
+  WebhookEventType,
+  Pick<VortexWebhookEvent, 'sourceTable' | 'operation'>
+> = {
+  'invitation.created': { sourceTable: 'invitations', operation: 'insert' },
+  'invitation.accepted': { sourceTable: 'invitations', operation: 'update' },
+  'invitation.deactivated': { sourceTable: 'invitations', operation: 'update' },
+  'invitation.email.delivered': { sourceTable: 'invitation_events', operation: 'insert' },
+  'invitation.email.bounced': { sourceTable: 'invitation_events', operation: 'insert' },
+  'invitation.email.opened': { sourceTable: 'invitation_events', operation: 'insert' },
+  'invitation.link.clicked': { sourceTable: 'invitation_events', operation: 'insert' },
+  'invitation.reminder.sent': { sourceTable: 'invitation_events', operation: 'insert' },
+  'deployment.created': { sourceTable: 'deployments', operation: 'insert' },
+  'deployment.deactivated': { sourceTable: 'deployments', operation: 'update' },
+  'abtest.started': { sourceTable: 'ab_tests', operation: 'update' },
+  'abtest.winner_declared': { sourceTable: 'ab_tests', operation: 'update' },
+  'member.created': { sourceTable: 'members', operation: 'insert' },
+  'group.member.added': { sourceTable: 'group_members', operation: 'insert' },
+  'email.complained': { sourceTable: 'email_events', operation: 'insert' },
+};
+
+const TEST_EMAIL = 'invitee@example.com';
+const TEST_SCOPE = { scopeId: 'team-123', type: 'team', name: 'Engineering' };
+
+function testInvitationData(status: string): InvitationEventData {
+  return {
+    invitationId: 'inv_test_123',
+    invitationType: 'single_use',
+    status,
+    foreignCreatorId: 'user-456',
+    widgetConfigurationId: 'widget-config-123',
+    target: { type: 'email', value: TEST_EMAIL, name: null },
+    targetEmail: TEST_EMAIL,
+    scopes: [TEST_SCOPE],
+    metadata: null,
+  };
+}
+
+/** Realistic default data for each webhook event type */
+const TEST_EVENT_DATA: { [T in WebhookEventType]: () => WebhookEventDataMap[T] } = {
+  'invitation.created': () => ({ ...testInvitationData('queued'), source: 'widget', subtype: null }),
+  'invitation.accepted': () => ({
+    ...testInvitationData('accepted'),
+    acceptor: { email: TEST_EMAIL, name: 'Test Invitee' },
+    acceptedAt: new Date().toISOString(),
+  }),
+  'invitation.deactivated': () => ({ ...testInvitationData('queued'), reason: 'revoked' }),
+  'invitation.email.delivered': () => ({ ...testInvitationData('delivered'), email: TEST_EMAIL }),
+  'invitation.email.bounced': () => ({
+    ...testInvitationData('sent'),
+    email: TEST_EMAIL,
+    bounceType: 'hard',
+    bounceReason: 'Mailbox does not exist',
+  }),
+  'invitation.email.opened': () => ({ ...testInvitationData('delivered'), email: TEST_EMAIL }),
+  'invitation.link.clicked': () => ({
+    ...testInvitationData('delivered'),
+    url: 'https://example.com/invite/inv_test_123',
+  }),
+  'invitation.reminder.sent': () => ({
+    ...testInvitationData('sent'),
+    email: TEST_EMAIL,
+    reminderCount: 1,
+  }),
+  'deployment.created': () => ({
+    deploymentId: 'dep_test_123',
+    widgetConfigurationId: 'widget-config-123',
+  }),
+  'deployment.deactivated': () => ({
+    deploymentId: 'dep_test_123',
+    widgetConfigurationId: 'widget-config-123',
+  }),
+  'abtest.started': () => ({
+    abTestId: 'abt_test_123',
+    widgetConfigurationId: 'widget-config-123',
+    variants: ['control', 'variant-a'],
+  }),
+  'abtest.winner_declared': () => ({
+    abTestId: 'abt_test_123',
+    widgetConfigurationId: 'widget-config-123',
+    winningVariant: 'variant-a',
+  }),
+  'member.created': () => ({
+    userId: 'user-789',
+    email: TEST_EMAIL,
+    invitationId: 'inv_test_123',
+    scopes: [TEST_SCOPE],
+  }),
+  'group.member.added': () => ({
+    userId: 'user-789',
+    scope: TEST_SCOPE,
+    invitationId: 'inv_test_123',
+  }),
+  'email.complained': () => ({
+    email: TEST_EMAIL,
+    invitationId: 'inv_test_123',
+    complaintType: 'abuse',
+  }),
+};
+
+/** Realistic default payloads for each analytics event name */
+const TEST_ANALYTICS_PAYLOADS: { [N in AnalyticsEventType]: () => AnalyticsEventPayloadMap[N] } = {
+  widget_loaded: () => ({ pageUrl: 'https://example.com/team/settings' }),
+  invitation_sent: () => ({ invitationId: 'inv_test_123', targetType: 'email' }),
+  invitation_clicked: () => ({ invitationId: 'inv_test_123' }),
+  invitation_accepted: () => ({ invitationId: 'inv_test_123' }),
+  share_triggered: () => ({ channel: 'copy_link' }),
+};
+
+function isTestWebhookEventType(type: string): type is WebhookEventType {
+  return Object.prototype.hasOwnProperty.call(TEST_EVENT_SOURCES, type);
+}
+
+function isTestAnalyticsEventType(type: string): type is AnalyticsEventType {
+  return Object.prototype.hasOwnProperty.call(TEST_ANALYTICS_PAYLOADS, type);
+}
+
+/**
+ * Build a realistic, signed webhook or analytics event for unit tests.
+ *
+ * Pass a `WebhookEventTypes` value for a webhook event or an
+ * `AnalyticsEventTypes` value for an analytics event. The result holds the
+ * event, its JSON body and the matching `X-Vortex-Signature` header, so the
+ * request goes through the real `constructEvent` path.
+ *
+ * @param type - The webhook event type or analytics event name
+ * @param overrides - Fields to override on the default event
+ * @param options - Signing secret and timestamp
+ * @returns The event and the signed request for it
+ *
+ * @example
+ * ```typescript
+ * const webhooks = new VortexWebhooks({ secret: TEST_WEBHOOK_SECRET });
+ * const { payload, signature, event } = buildTestWebhookEvent('invitation.accepted', {
+ *   data: { invitationId: 'inv_123' },
+ * });
+ *
+ * expect(webhooks.constructEvent(payload, signature)).toEqual(event);
+ * ```
+ */
+export function buildTestWebhookEvent<T extends WebhookEventType | AnalyticsEventType>(
+  type: T,
+  overrides: TestEventOverrides<T> = {} as TestEventOverrides<T>,
+  options: BuildTestWebhookEventOptions = {}
+): TestWebhookEvent<TestEvent<T>> {
+  const timestamp = new Date().toISOString();
+  const { data, payload: payloadOverrides, ...envelope } = overrides as Record<string, any>;
+  let event: VortexWebhookEvent | VortexAnalyticsEvent;
+
+  if (isTestWebhookEventType(type)) {
+    event = {
+      id: `evt_${crypto.randomUUID()}`,
+      type,
+      timestamp,
+      accountId: 'acc_test',
+      environmentId: 'env_test',
+      ...TEST_EVENT_SOURCES[type],
+      ...envelope,
+      data: { ...TEST_EVENT_DATA[type](), ...data },
+    } as VortexWebhookEvent;
+  } else if (isTestAnalyticsEventType(type)) {
+    event = {
+      id: `ae_${crypto.randomUUID()}`,
+      name: type,
+      accountId: 'acc_test',
+      organizationId: 'org_test',
+      projectId: 'proj_test',
+      environmentId: 'env_test',
+      deploymentId: 'dep_test_123',
+      widgetConfigurationId: 'widget-config-123',
+      foreignUserId: 'user-456',
+      sessionId: `sess_${crypto.randomUUID()}`,
+      platform: 'web',
+      segmentation: null,
+      timestamp,
+      ...envelope,
+      payload:
+        payloadOverrides === null ? null : { ...TEST_ANALYTICS_PAYLOADS[type](), ...payloadOverrides },
+    };
+  } else {
+    throw new Error(`Unknown webhook event type or analytics event name: "${type}"`);
+  }
+
+  const payload = JSON.stringify(event);
+  const signature = new VortexWebhooks({
+    secret: options.secret ?? TEST_WEBHOOK_SECRET,
+  }).signPayload(payload, { timestamp: options.timestamp });
+  return {
+    event: event as TestEvent<T>,
+    payload,
+    signature,
+    headers: { 'content-type': 'application/json', 'x-vortex-signature': signature },
+  };
+}
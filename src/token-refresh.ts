@@ -0,0 +1,80 @@
+/**
+ * Vortex Token Refresh Endpoint
+ *
+ * A framework-neutral handler for the endpoint your frontend calls to
+ * exchange a refresh token from `Vortex.generateTokenPair()` for a new token
+ * pair. Mount it in any framework by passing the parsed JSON request body
+ * and sending back the returned status and body.
+ */
+
+import { VortexTokenError } from './errors';
+import type { TokenPair } from './types';
+import type { Vortex } from './vortex';
+
+export interface TokenRefreshHandlerOptions {
+  /** Called with every error that fails a refresh, e.g. for logging */
+  onError?: (error: Error) => void;
+}
+
+/** Result of handling one refresh request */
+export interface TokenRefreshResult {
+  status: number;
+  body: TokenPair | { error: string };
+}
+
+/** Handles one refresh request, given its parsed JSON body (`{ refreshToken }`) */
+export type TokenRefreshHandler = (body: unknown) => Promise<TokenRefreshResult>;
+
+/**
+ * Create a handler for a token refresh endpoint.
+ *
+ * Responds 200 with a new `TokenPair`, 400 `{ error: 'invalid_request' }`
+ * when the body has no `refreshToken` string, 401 `{ error: code }` when the
+ * refresh token is rejected (see `VortexTokenError`), and 500
+ * `{ error: 'server_error' }` when anything else fails (e.g. the revocation
+ * store).
+ *
+ * @param vortex - The client that issued the token pairs
+ * @param options - Optional error callback
+ * @returns The refresh request handler
+ *
+ * @example
+ * ```typescript
+ * const refresh = createTokenRefreshHandler(vortex);
+ *
+ * // Express
+ * app.post('/api/vortex-session/refresh', express.json(), async (req, res) => {
+ *   const { status, body } = await refresh(req.body);
+ *   res.status(status).json(body);
+ * });
+ *
+ * // Next.js App Router
+ * export async function POST(request: Request) {
+ *   const { status, body } = await refresh(await request.json().catch(() => null));
+ *   return Response.json(body, { status });
+ * }
+ * ```
+ */
+export function createTokenRefreshHandler(
+  vortex: Vortex,
+  options: TokenRefreshHandlerOptions = {}
+): TokenRefreshHandler {
+  return async function handleTokenRefresh(body: unknown): Promise<TokenRefreshResult> {
+    const refreshToken =
+      body && typeof body === 'object' ? (body as Record<string, unknown>).refreshToken : undefined;
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+      options.onError?.(new Error('Token refresh request has no refreshToken'));
+      return { status: 400, body: { error: 'invalid_request' } };
+    }
+
+    try {
+      return { status: 200, body: await vortex.refreshToken(refreshToken) };
+    } catch (err) {
+      options.onError?.(err as Error);
+      if (err instanceof VortexTokenError) {
+        return { status: 401, body: { error: err.code } };
+      }
+      return { status: 500, body: { error: 'server_error' } };
+    }
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Vortex Token Revocation Stores
+ *
+ * Tokens from `generateToken()` stay valid until they expire. When a Vortex
+ * client is given a revocation store, every generated token carries a `jti`,
+ * `revokeToken()` records a `jti` as revoked, and `verifyActiveToken()`
+ * rejects tokens whose `jti` the store holds.
+ *
+ * Implement `TokenRevocationStore` to share revocations through Redis, SQL or
+ * any shared storage; the in-memory and file-backed stores here suit a
+ * single process.
+ */
+
+import { JsonFile } from './json-file';
+
+/**
+ * Records which token IDs (`jti` claims) have been revoked.
+ *
+ * @example
+ * ```typescript
+ * // Redis-backed store, shared by every instance of your service
+ * const redisStore: TokenRevocationStore = {
+ *   async isRevoked(jti) {
+ *     return (await redis.exists(`vortex:revoked:${jti}`)) === 1;
+ *   },
+ *   async revoke(jti, until) {
+ *     await redis.set(`vortex:revoked:${jti}`, '1', { EXAT: until });
+ *   },
+ *   async consume(jti, until) {
+ *     return (await redis.set(`vortex:revoked:${jti}`, '1', { EXAT: until, NX: true })) === 'OK';
+ *   },
+ * };
+ * ```
+ */
+export interface TokenRevocationStore {
+  /** Whether the token with this ID has been revoked */
+  isRevoked(jti: string): boolean | Promise<boolean>;
+  /**
+   * Record that the token with this ID is revoked. `until` (Unix seconds) is
+   * when the token expires anyway; the entry can be dropped after it.
+   */
+  revoke(jti: string, until: number): void | Promise<void>;
+  /**
+   * Revoke the token with this ID unless it is already revoked, as one atomic
+   * step. Returns false if it was already revoked. `refreshToken()` uses this
+   * so each refresh token is used at most once, even by concurrent requests.
+   */
+  consume(jti: string, until: number): boolean | Promise<boolean>;
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * In-memory revocation store. Entries are dropped once the revoked token
+ * would have expired, and are lost when the process restarts.
+ */
+export class MemoryTokenRevocationStore implements TokenRevocationStore {
+  private readonly revoked = new Map<string, number>();
+
+  isRevoked(jti: string): boolean {
+    const until = this.revoked.get(jti);
+    if (until === undefined) return false;
+    if (until <= nowSeconds()) {
+      this.revoked.delete(jti);
+      return false;
+    }
+    return true;
+  }
+
+  revoke(jti: string, until: number): void {
+    // Keep the later expiry if the same token is revoked twice
+    this.revoked.set(jti, Math.max(until, this.revoked.get(jti) ?? 0));
+    this.prune();
+  }
+
+  consume(jti: string, until: number): boolean {
+    if (this.isRevoked(jti)) return false;
+    this.revoke(jti, until);
+    return true;
+  }
+
+  /** The revoked token IDs that have not yet expired, with their expiry times */
+  entries(): Record<string, number> {
+    this.prune();
+    return Object.fromEntries(this.revoked);
+  }
+
+  private prune(): void {
+    const now = nowSeconds();
+    for (const [jti, until] of this.revoked) {
+      if (until <= now) {
+        this.revoked.delete(jti);
+      }
+    }
+  }
+}
+
+export interface FileTokenRevocationStoreOptions {
+  /** Path of the JSON file that holds revoked token IDs. Created on first write. */
+  path: string;
+}
+
+/**
+ * Revocation store that persists revoked token IDs to a JSON file, so
+ * revocations survive restarts. Suitable for a single process; use a shared
+ * store (Redis, SQL) when several processes verify tokens.
+ */
+export class FileTokenRevocationStore implements TokenRevocationStore {
+  private readonly file: JsonFile<MemoryTokenRevocationStore>;
+
+  constructor(options: FileTokenRevocationStoreOptions) {
+    if (!options.path) {
+      throw new Error('FileTokenRevocationStore requires a path');
+    }
+    this.file = new JsonFile({
+      path: options.path,
+      description: 'token revocation',
+      empty: () => new MemoryTokenRevocationStore(),
+      parse: (json) => {
+        if (
+          !json ||
+          typeof json !== 'object' ||
+          Array.isArray(json) ||
+          Object.values(json).some((until) => typeof until !== 'number')
+        ) {
+          return undefined;
+        }
+        const revoked = new MemoryTokenRevocationStore();
+        for (const [jti, until] of Object.entries(json as Record<string, number>)) {
+          revoked.revoke(jti, until);
+        }
+        return revoked;
+      },
+    });
+  }
+
+  async isRevoked(jti: string): Promise<boolean> {
+    return (await this.file.load()).isRevoked(jti);
+  }
+
+  async revoke(jti: string, until: number): Promise<void> {
+    const revoked = await this.file.load();
+    revoked.revoke(jti, until);
+    await this.file.save(() => revoked.entries());
+  }
+
+  async consume(jti: string, until: number): Promise<boolean> {
+    const revoked = await this.file.load();
+    if (!revoked.consume(jti, until)) return false;
+    await this.file.save(() => revoked.entries());
+    return true;
+  }
+}
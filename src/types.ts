@@ -1,3 +1,6 @@
+import type { KeyObject } from 'node:crypto';
+import type { TokenRevocationStore } from './token-revocation';
+
 /**
  * Target recipient of an invitation
  */
@@ -226,6 +229,16 @@ export type SyncInternalInvitationResponse = {
   invitationIds: string[];
 };
 
+/**
+ * A page of invitations from a listing endpoint
+ */
+export type InvitationPage<T = InvitationResult> = {
+  /** Invitations on this page */
+  invitations: T[];
+  /** Cursor for the next page, or null if this is the last page */
+  nextCursor: string | null;
+};
+
 /**
  * Union of possible API response JSON structures
  * @internal
@@ -233,8 +246,8 @@ export type SyncInternalInvitationResponse = {
 export type ApiResponseJson =
   | InvitationResult
   | InvitationResultBase
-  | { invitations: InvitationResult[] }
-  | { invitations: InvitationResultBase[] }
+  | { invitations: InvitationResult[]; nextCursor?: string | null }
+  | { invitations: InvitationResultBase[]; nextCursor?: string | null }
   | {};
 
 /**
@@ -481,28 +494,313 @@ export type GenerateTokenData = {
   [key: string]: any;
 };
 
+/**
+ * Standard JWT claims accepted by generateToken and generateJwt
+ */
+export type TokenClaimOptions = {
+  /** `aud` claim: the service(s) or component(s) the token is intended for */
+  audience?: string | string[];
+  /** `iss` claim: who issued the token */
+  issuer?: string;
+  /** `sub` claim. Default: the user's ID, when present */
+  subject?: string;
+  /**
+   * `nbf` claim: how long after issue the token becomes valid
+   * - String format: '90s', '5m', '1h30m', '7d', '2w', or an ISO-8601 duration like 'PT15M'
+   * - Number format: seconds
+   */
+  notBefore?: string | number;
+  /**
+   * `jti` claim: a unique token ID, e.g. to reject reused one-time tokens.
+   * `true` generates a random UUID.
+   */
+  jti?: string | true;
+};
+
 /**
  * Options for generateJwt method
  */
-export type GenerateJwtOptions = {
+export type GenerateJwtOptions = TokenClaimOptions & {
   /**
    * JWT expiration time
-   * - String format: '5m', '1h', '24h', '7d' (minutes, hours, days)
+   * - String format: '90s', '5m', '1h30m', '7d', '2w', or an ISO-8601 duration like 'PT15M'
    * - Number format: seconds
    * - Default: 30 days (2592000 seconds)
    */
   expiresIn?: string | number;
+  /**
+   * Absolute expiration time, instead of `expiresIn`: a Date or a Unix
+   * timestamp in seconds
+   */
+  expiresAt?: Date | number;
 };
 
 /**
  * Options for generateToken method
  */
-export type GenerateTokenOptions = {
+export type GenerateTokenOptions = TokenClaimOptions & {
   /**
    * Token expiration time
-   * - String format: '5m', '1h', '24h', '7d' (minutes, hours, days)
+   * - String format: '90s', '5m', '1h30m', '7d', '2w', or an ISO-8601 duration like 'PT15M'
    * - Number format: seconds
    * - Default: '30d' (30 days)
    */
   expiresIn?: string | number;
+  /**
+   * Absolute expiration time, instead of `expiresIn`: a Date or a Unix
+   * timestamp in seconds
+   */
+  expiresAt?: Date | number;
+};
+
+/**
+ * Options for generateTokenPair method. The access token options are reused
+ * for every token `refreshToken()` issues.
+ */
+export type GenerateTokenPairOptions = Omit<
+  GenerateTokenOptions,
+  'expiresIn' | 'expiresAt' | 'notBefore' | 'jti'
+> & {
+  /**
+   * Access token lifetime, in the same formats as `expiresIn`.
+   * Default: '15m'
+   */
+  expiresIn?: string | number;
+  /**
+   * Refresh token lifetime: how long the session can be kept alive without
+   * signing in again. Refreshing does not extend it. Default: '7d'
+   */
+  refreshExpiresIn?: string | number;
+};
+
+/**
+ * Access and refresh tokens returned by generateTokenPair and refreshToken
+ */
+export type TokenPair = {
+  /** Token for the widget, as from `generateToken()` */
+  accessToken: string;
+  /** Seconds until the access token expires */
+  expiresIn: number;
+  /** Credential to exchange for a new pair with `refreshToken()`. Keep it out of the widget. */
+  refreshToken: string;
+  /** Seconds until the refresh token (and the session) expires */
+  refreshExpiresIn: number;
+};
+
+/**
+ * Per-call options accepted by every API method
+ */
+export type RequestOptions = {
+  /** Cancel the request. Rejects with the signal's abort reason. */
+  signal?: AbortSignal;
+  /**
+   * Abort an attempt that takes longer than this many milliseconds, overriding
+   * the client's `timeoutMs`. Rejects with `VortexTimeoutError`.
+   */
+  timeoutMs?: number;
+};
+
+/**
+ * Per-call options for invitation listing methods
+ */
+export type ListInvitationsOptions = RequestOptions & {
+  /** Return the page starting at this cursor (from a previous page's `nextCursor`) */
+  cursor?: string;
+  /** Maximum number of invitations to return */
+  limit?: number;
+};
+
+/**
+ * Options for the invitation iterators (e.g. iterateInvitationsByScope)
+ */
+export type IterateInvitationsOptions = RequestOptions & {
+  /** Number of invitations to request per page. Default: 100 */
+  pageSize?: number;
+  /** Resume from this cursor instead of the first page */
+  cursor?: string;
+};
+
+/**
+ * Per-call options for API methods that create or change state
+ */
+export type IdempotentRequestOptions = RequestOptions & {
+  /**
+   * Sent as the `Idempotency-Key` header. Repeating a request with the same key
+   * will not perform the action twice, so the request is safe to retry.
+   */
+  idempotencyKey?: string;
+  /**
+   * Derive `idempotencyKey` from a SHA-256 hash of the canonical request body.
+   * Ignored when `idempotencyKey` is set.
+   */
+  deriveIdempotencyKey?: boolean;
+};
+
+/**
+ * Options for verifyToken method
+ */
+export type VerifyTokenOptions = {
+  /** Seconds of clock skew to allow when checking `exp` and `iat`. Default: 0 */
+  clockToleranceSec?: number;
+  /**
+   * Reject tokens issued longer ago than this, regardless of `exp`
+   * - String format: '90s', '5m', '1h30m', '7d', '2w', or an ISO-8601 duration like 'PT15M'
+   * - Number format: seconds
+   */
+  maxAge?: string | number;
+  /** Require the token's `aud` claim to include this audience (or one of these) */
+  audience?: string | string[];
+  /** Require the token's `iss` claim to be this issuer (or one of these) */
+  issuer?: string | string[];
+};
+
+/**
+ * Payload returned by verifyToken: the signed data plus its timing claims
+ */
+export type VerifiedTokenPayload = GenerateTokenData & {
+  /** Issued-at time (seconds since epoch) */
+  iat: number;
+  /** Expiration time (seconds since epoch) */
+  exp: number;
+  /** Intended audience(s), if set */
+  aud?: string | string[];
+  /** Issuer, if set */
+  iss?: string;
+  /** Subject (the user's ID unless overridden), if set */
+  sub?: string;
+  /** Not-before time (seconds since epoch), if set */
+  nbf?: number;
+  /** Unique token ID, if set */
+  jti?: string;
+};
+
+/**
+ * Result of verifySignature
+ * - valid: the signature matches the user object and this client's API key
+ * - malformed: the signature is not in `kid:hexDigest` format
+ * - kid_mismatch: the signature was made with a different (e.g. rotated-out) API key
+ * - signature_mismatch: same key, but the user object does not match what was signed
+ */
+export type SignatureVerificationResult =
+  | {
+      valid: true;
+      /** Key ID the signature was made with */
+      kid: string;
+    }
+  | {
+      valid: false;
+      /** Why the signature was rejected */
+      reason: 'malformed' | 'kid_mismatch' | 'signature_mismatch';
+      /** Key ID the signature claims to be made with, or null if malformed */
+      kid: string | null;
+    };
+
+/**
+ * Retry behavior for failed API requests
+ */
+export type RetryOptions = {
+  /** Maximum number of attempts, including the first request. Default: 3 */
+  maxAttempts?: number;
+  /** Base delay for jittered exponential backoff, in milliseconds. Default: 500 */
+  baseDelayMs?: number;
+  /**
+   * Maximum delay between attempts, in milliseconds. Default: 10000.
+   * A `Retry-After` header asking for a longer wait stops retrying.
+   */
+  maxDelayMs?: number;
+};
+
+/** JWT algorithms used for asymmetric token signing */
+export type AsymmetricTokenAlgorithm = 'ES256' | 'EdDSA';
+
+/**
+ * An EC P-256 (ES256) or Ed25519 (EdDSA) key for asymmetric token signing
+ */
+export type TokenSigningKey = {
+  /**
+   * PEM-encoded key or a `KeyObject`. The first configured signing key must
+   * be a private key; later ones may be public keys kept for verification.
+   */
+  key: string | KeyObject;
+  /** Key ID for the token `kid` header and the JWKS. Default: the key's RFC 7638 JWK thumbprint */
+  kid?: string;
+};
+
+/**
+ * Public signing key in JSON Web Key format, as returned by getJwks
+ */
+export type TokenJsonWebKey = {
+  kty: 'EC' | 'OKP';
+  crv: 'P-256' | 'Ed25519';
+  x: string;
+  /** Present for EC keys only */
+  y?: string;
+  kid: string;
+  alg: AsymmetricTokenAlgorithm;
+  use: 'sig';
+};
+
+/**
+ * JSON Web Key Set document, as returned by getJwks
+ */
+export type TokenJwks = {
+  keys: TokenJsonWebKey[];
+};
+
+/**
+ * Options for constructing a Vortex client
+ */
+export type VortexClientOptions = {
+  /** Your Vortex API key. Used for signing and API requests. */
+  apiKey: string;
+  /**
+   * Additional API keys that are still valid during a key rotation.
+   * Tokens and signatures made with any of these keys pass verification
+   * (matched by `kid`), and API requests rejected with 401 are retried with
+   * each secondary key in order. Signing always uses `apiKey`.
+   */
+  secondaryApiKeys?: string[];
+  /**
+   * Base URL of the Vortex API.
+   * Defaults to the `VORTEX_API_BASE_URL` environment variable (read once, at
+   * construction), then `https://api.vortexsoftware.com`.
+   */
+  baseUrl?: string;
+  /**
+   * Abort API requests that take longer than this many milliseconds (per
+   * attempt when retries are enabled). No timeout by default.
+   */
+  timeoutMs?: number;
+  /** Additional headers sent with every API request */
+  headers?: Record<string, string>;
+  /** Custom `fetch` implementation (e.g., for proxies or testing). Defaults to the global `fetch`. */
+  fetch?: typeof fetch;
+  /** Appended to the `User-Agent` header (e.g., 'my-app/1.2.3') */
+  userAgentSuffix?: string;
+  /**
+   * Retry failed requests with jittered exponential backoff.
+   * `true` uses the defaults; disabled by default.
+   */
+  retry?: RetryOptions | boolean;
+  /**
+   * Sign tokens from `generateToken()` and `generateJwt()` with an ES256 or
+   * Ed25519 private key instead of the HS256 key derived from `apiKey`.
+   * Services holding only the public keys (see `getJwks()`) can then verify
+   * tokens without being able to mint them. Pass an array while rotating
+   * keys: the first key signs, and every key is published and accepted by
+   * `verifyToken()`.
+   */
+  signingKey?: TokenSigningKey | TokenSigningKey[];
+  /**
+   * Longest lifetime `generateToken()` and `generateJwt()` accept, whether
+   * from `expiresIn` or `expiresAt`. Longer tokens throw instead of being
+   * signed. Same formats as `expiresIn`. Default: '365d'
+   */
+  maxTokenLifetime?: string | number;
+  /**
+   * Where `revokeToken()` records revoked token IDs and `verifyActiveToken()`
+   * looks them up. When set, generated tokens get a random `jti` unless one
+   * is passed.
+   */
+  revocationStore?: TokenRevocationStore;
 };
@@ -19,7 +19,36 @@ import {
   GenerateTokenData,
   GenerateJwtOptions,
   GenerateTokenOptions,
+  GenerateTokenPairOptions,
+  TokenPair,
+  TokenClaimOptions,
+  VortexClientOptions,
+  RetryOptions,
+  IdempotentRequestOptions,
+  RequestOptions,
+  VerifyTokenOptions,
+  VerifiedTokenPayload,
+  SignatureVerificationResult,
+  InvitationPage,
+  ListInvitationsOptions,
+  IterateInvitationsOptions,
+  TokenJwks,
 } from './types';
+import {
+  createApiError,
+  parseRetryAfter,
+  VortexApiError,
+  VortexTimeoutError,
+  VortexTokenError,
+} from './errors';
+import {
+  ResolvedSigningKey,
+  resolveSigningKey,
+  signWithKey,
+  toJwk,
+  verifyWithKey,
+} from './signing-keys';
+import type { TokenRevocationStore } from './token-revocation';
 
 // SDK identification for request tracking
 // __SDK_VERSION__ is injected at build time by tsup (see tsup.config.ts)
@@ -27,6 +56,166 @@ declare const __SDK_VERSION__: string;
 const SDK_NAME = 'vortex-node-sdk';
 const SDK_VERSION = typeof __SDK_VERSION__ !== 'undefined' ? __SDK_VERSION__ : '0.8.2';
 
+const DEFAULT_BASE_URL = 'https://api.vortexsoftware.com';
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/** Lifetime of generated tokens when neither expiresIn nor expiresAt is given */
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 30 * 24 * 60 * 60;
+
+/** Longest token lifetime generateToken() and generateJwt() accept unless configured */
+const DEFAULT_MAX_TOKEN_LIFETIME = '365d';
+
+/** Lifetimes of the tokens from generateTokenPair() unless configured */
+const DEFAULT_ACCESS_TOKEN_LIFETIME = '15m';
+const DEFAULT_REFRESH_TOKEN_LIFETIME = '7d';
+
+/** `tokenUse` claim that marks refresh tokens, so they are never accepted as access tokens */
+const REFRESH_TOKEN_USE = 'refresh';
+
+/**
+ * `typ` header and `aud` claim of refresh tokens. Generic JWT verifiers that
+ * check either one reject refresh tokens, even though they share the access
+ * token signing key.
+ */
+const REFRESH_TOKEN_TYPE = 'refresh+jwt';
+const REFRESH_TOKEN_AUDIENCE = 'vortex:refresh';
+
+/** Compound durations with units in descending order, e.g. '90s', '2w', '1h30m' */
+const COMPOUND_DURATION = /^(?:(\d+)w)?(?:(\d+)d)?(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/;
+
+/** ISO-8601 durations without years or months (which vary in length), e.g. 'PT15M', 'P1DT12H' */
+const ISO_DURATION = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?=\d)(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+/** Seconds per unit, in the capture-group order of both duration patterns */
+const DURATION_UNIT_SECONDS = [7 * 24 * 60 * 60, 24 * 60 * 60, 60 * 60, 60, 1];
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+
+/** Methods that are safe to retry without an idempotency key */
+const IDEMPOTENT_METHODS = new Set(['GET', 'DELETE']);
+
+/** Response statuses worth retrying (timeouts, rate limits, server errors) */
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Resolve the `retry` client option. Retries are disabled unless configured.
+ */
+function resolveRetryOptions(retry: RetryOptions | boolean | undefined): Required<RetryOptions> {
+  if (!retry) {
+    return { ...DEFAULT_RETRY, maxAttempts: 1 };
+  }
+  const resolved = retry === true ? { ...DEFAULT_RETRY } : { ...DEFAULT_RETRY, ...retry };
+  if (!Number.isInteger(resolved.maxAttempts) || resolved.maxAttempts < 1) {
+    throw new Error(
+      `Invalid retry.maxAttempts value: "${resolved.maxAttempts}". Must be a positive integer.`
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Validate a `timeoutMs` option.
+ */
+function assertValidTimeout(timeoutMs: number | undefined): void {
+  if (timeoutMs !== undefined && (!Number.isFinite(timeoutMs) || timeoutMs <= 0)) {
+    throw new Error(
+      `Invalid timeoutMs value: "${timeoutMs}". Must be a positive number of milliseconds.`
+    );
+  }
+}
+
+/**
+ * Wait for `ms` milliseconds, rejecting early if `signal` aborts.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Parse a successful API response body as JSON.
+ * Returns an empty object for empty or non-JSON responses.
+ */
+async function readJsonResponse(results: Response): Promise<ApiResponseJson> {
+  // Check if response has content to parse
+  const contentLength = results.headers.get('content-length');
+  const contentType = results.headers.get('content-type');
+
+  // If no content or content-length is 0, return empty object
+  if (contentLength === '0' || (!contentType?.includes('application/json') && !contentLength)) {
+    return {};
+  }
+
+  // Try to get text first to check if there's actually content
+  const responseText = await results.text();
+  if (!responseText.trim()) {
+    return {};
+  }
+
+  // Parse JSON if there's content
+  try {
+    return JSON.parse(responseText);
+  } catch (error) {
+    // If JSON parsing fails, return the text or empty object
+    return {};
+  }
+}
+
+/**
+ * Reject token payloads that set the `tokenUse` claim, which marks refresh
+ * tokens and must only be set by the SDK.
+ */
+function assertNoReservedClaims(payload: Record<string, unknown>): void {
+  if (Object.prototype.hasOwnProperty.call(payload, 'tokenUse')) {
+    throw new Error('tokenUse is a reserved claim and cannot be set in a token payload');
+  }
+}
+
+/**
+ * Whether a verified token is a refresh token: marked by the `tokenUse` claim
+ * or the `typ` header, so a token with either is never used as an access token
+ */
+function isRefreshToken(token: string, payload: object): boolean {
+  return (
+    (payload as Record<string, unknown>).tokenUse === REFRESH_TOKEN_USE ||
+    decodeJwtSegment(token.split('.')[0]).typ === REFRESH_TOKEN_TYPE
+  );
+}
+
+/**
+ * Decode a base64url JWT segment into a JSON object.
+ */
+function decodeJwtSegment(segment: string): Record<string, any> {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new VortexTokenError('malformed', 'Token segment is not valid base64url-encoded JSON');
+  }
+  if (!decoded || typeof decoded !== 'object' || Array.isArray(decoded)) {
+    throw new VortexTokenError('malformed', 'Token segment is not a JSON object');
+  }
+  return decoded as Record<string, any>;
+}
+
 /**
  * Transform an InvitationScope from API wire format to SDK format.
  * Adds scopeId as a preferred alias for groupId.
@@ -102,24 +291,110 @@ function transformCreateRequest(params: Record<string, any>): Record<string, any
 }
 
 export class Vortex {
-  constructor(private apiKey: string) {}
+  private readonly apiKey: string;
+  private readonly secondaryApiKeys: string[];
+  private readonly parsedSecondaryApiKeys: { kid: string; key: string }[];
+  private readonly baseUrl: string;
+  private readonly timeoutMs?: number;
+  private readonly defaultHeaders: Record<string, string>;
+  private readonly fetchImpl?: typeof fetch;
+  private readonly userAgent: string;
+  private readonly retry: Required<RetryOptions>;
+  private readonly signingKeys: ResolvedSigningKey[];
+  private readonly maxTokenLifetimeSeconds: number;
+  private readonly revocationStore?: TokenRevocationStore;
+
+  /**
+   * Create a Vortex client from an API key.
+   * @param apiKey - Your Vortex API key
+   */
+  constructor(apiKey: string);
 
   /**
-   * Parse the API key into its components (kid and raw key).
+   * Create a Vortex client with custom options (base URL, timeout, headers, fetch).
+   * @param options - Client options, including your Vortex API key
+   *
+   * @example
+   * ```typescript
+   * const staging = new Vortex({
+   *   apiKey: process.env.VORTEX_STAGING_API_KEY!,
+   *   baseUrl: 'https://api.staging.vortexsoftware.com',
+   *   timeoutMs: 10_000,
+   *   userAgentSuffix: 'billing-service/2.1.0',
+   * });
+   * ```
+   */
+  constructor(options: VortexClientOptions);
+
+  constructor(apiKeyOrOptions: string | VortexClientOptions) {
+    const options: VortexClientOptions =
+      typeof apiKeyOrOptions === 'string' ? { apiKey: apiKeyOrOptions } : apiKeyOrOptions;
+
+    assertValidTimeout(options.timeoutMs);
+
+    this.apiKey = options.apiKey;
+    this.secondaryApiKeys = [...(options.secondaryApiKeys ?? [])];
+    // Parse secondary keys up front, so a malformed one fails here rather than in verification
+    this.parsedSecondaryApiKeys = this.secondaryApiKeys.map((apiKey, index) =>
+      this.parseApiKey(apiKey, `secondaryApiKeys[${index}]`)
+    );
+    const baseUrl = options.baseUrl || process.env.VORTEX_API_BASE_URL || DEFAULT_BASE_URL;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.timeoutMs = options.timeoutMs;
+    this.defaultHeaders = { ...options.headers };
+    this.fetchImpl = options.fetch;
+    this.retry = resolveRetryOptions(options.retry);
+    const signingKeys =
+      options.signingKey === undefined
+        ? []
+        : Array.isArray(options.signingKey)
+          ? options.signingKey
+          : [options.signingKey];
+    this.signingKeys = signingKeys.map(resolveSigningKey);
+    if (this.signingKeys.length > 0 && !this.signingKeys[0].privateKey) {
+      throw new Error('The first signingKey must be a private key');
+    }
+    this.maxTokenLifetimeSeconds = this.parseExpiresIn(
+      options.maxTokenLifetime ?? DEFAULT_MAX_TOKEN_LIFETIME,
+      'maxTokenLifetime'
+    );
+    this.revocationStore = options.revocationStore;
+    this.userAgent = options.userAgentSuffix
+      ? `${SDK_NAME}/${SDK_VERSION} ${options.userAgentSuffix}`
+      : `${SDK_NAME}/${SDK_VERSION}`;
+  }
+
+  /**
+   * Parse an API key (the primary key by default) into its components (kid and raw key).
    * API key format: VRTX.<base64url-encoded-uuid>.<key>
+   * `label` names the key in the error thrown for a malformed key.
    */
-  private parseApiKey(): { kid: string; key: string } {
-    const [prefix, encodedId, key] = this.apiKey.split('.');
+  private parseApiKey(
+    apiKey: string = this.apiKey,
+    label = 'API key'
+  ): { kid: string; key: string } {
+    const [prefix, encodedId, key] = apiKey.split('.');
     if (!prefix || !encodedId || !key) {
-      throw new Error('Invalid API key format');
+      throw new Error(`Invalid ${label} format`);
     }
     if (prefix !== 'VRTX') {
-      throw new Error('Invalid API key prefix');
+      throw new Error(`Invalid ${label} prefix`);
     }
     const kid = uuidStringify(Buffer.from(encodedId, 'base64url'));
     return { kid, key };
   }
 
+  /**
+   * Find the configured API key (primary or secondary) with the given kid.
+   */
+  private findApiKeyByKid(kid: string): { kid: string; key: string } | undefined {
+    const primary = this.parseApiKey();
+    if (primary.kid === kid) {
+      return primary;
+    }
+    return this.parsedSecondaryApiKeys.find((parsed) => parsed.kid === kid);
+  }
+
   /**
    * Derive the signing key from the API key components.
    * signingKey = HMAC-SHA256(key, kid)
@@ -128,6 +403,61 @@ export class Vortex {
     return crypto.createHmac('sha256', key).update(kid).digest();
   }
 
+  /**
+   * The algorithm, key ID and signing function for new tokens: the first
+   * asymmetric signing key if configured, otherwise HS256 with the key
+   * derived from the primary API key.
+   */
+  private tokenSigner(): { alg: string; kid: string; sign: (data: string) => Buffer } {
+    if (this.signingKeys.length > 0) {
+      const [signingKey] = this.signingKeys;
+      return {
+        alg: signingKey.alg,
+        kid: signingKey.kid,
+        sign: (data) => signWithKey(signingKey, data),
+      };
+    }
+    const { kid, key } = this.parseApiKey();
+    const signingKey = this.deriveSigningKey(key, kid);
+    return {
+      alg: 'HS256',
+      kid,
+      sign: (data) => crypto.createHmac('sha256', signingKey).update(data).digest(),
+    };
+  }
+
+  /**
+   * Build the standard JWT claims (aud, iss, sub, nbf, jti) requested in the
+   * token options. `sub` defaults to the user's ID, and `jti` to a random UUID
+   * when a revocation store is configured.
+   */
+  private buildStandardClaims(
+    options: TokenClaimOptions | undefined,
+    now: number,
+    userId: unknown
+  ): Record<string, unknown> {
+    const claims: Record<string, unknown> = {};
+    if (options?.audience !== undefined) {
+      claims.aud = options.audience;
+    }
+    if (options?.issuer !== undefined) {
+      claims.iss = options.issuer;
+    }
+    const subject =
+      options?.subject ?? (userId === undefined || userId === null ? undefined : String(userId));
+    if (subject !== undefined) {
+      claims.sub = subject;
+    }
+    if (options?.notBefore !== undefined) {
+      claims.nbf = now + this.parseExpiresIn(options.notBefore, 'notBefore');
+    }
+    const jti = options?.jti ?? (this.revocationStore ? true : undefined);
+    if (jti !== undefined) {
+      claims.jti = jti === true ? crypto.randomUUID() : jti;
+    }
+    return claims;
+  }
+
   /**
    * Build the canonical user payload from a User object.
    * This produces the same shape as UnsignedData (userId, userEmail, etc.)
@@ -282,11 +612,59 @@ export class Vortex {
       throw new Error('userId (or id) is required for signing');
     }
     const { kid, key } = this.parseApiKey();
+    return `${kid}:${this.computeUserDigest(user, key, kid)}`;
+  }
+
+  /**
+   * Compute the hex HMAC digest used by `sign()` for a user object.
+   */
+  private computeUserDigest(user: User, key: string, kid: string): string {
     const signingKey = this.deriveSigningKey(key, kid);
     const canonical = this.buildCanonicalPayload(user);
     const data = Vortex.canonicalJson(canonical);
-    const digest = crypto.createHmac('sha256', signingKey).update(data).digest('hex');
-    return `${kid}:${digest}`;
+    return crypto.createHmac('sha256', signingKey).update(data).digest('hex');
+  }
+
+  /**
+   * Verify a signature produced by `sign()` against a user object.
+   *
+   * Recomputes the canonical user payload and compares digests in constant
+   * time. Signatures made with the primary or any secondary API key are
+   * accepted. A signature made with an unknown API key reports `kid_mismatch`
+   * rather than a generic failure, so rotated-out keys are easy to spot.
+   *
+   * @param user - The user object the signature claims to cover
+   * @param signature - Signature string in `kid:hexDigest` format
+   * @returns Whether the signature is valid and, if not, why
+   *
+   * @example
+   * ```typescript
+   * const result = vortex.verifySignature(req.body.user, req.body.signature);
+   * if (!result.valid) {
+   *   console.warn(`Rejected signature (${result.reason}, kid ${result.kid})`);
+   *   return res.status(401).end();
+   * }
+   * ```
+   */
+  @VortexMethod({ category: 'authentication', since: '0.21.0', internal: true })
+  verifySignature(user: User, signature: string): SignatureVerificationResult {
+    const match = typeof signature === 'string' ? /^([^:]+):([0-9a-f]{64})$/.exec(signature) : null;
+    if (!match) {
+      return { valid: false, reason: 'malformed', kid: null };
+    }
+    const [, kid, digest] = match;
+
+    const apiKey = this.findApiKeyByKid(kid);
+    if (!apiKey) {
+      return { valid: false, reason: 'kid_mismatch', kid };
+    }
+
+    const expected = Buffer.from(this.computeUserDigest(user, apiKey.key, kid), 'hex');
+    const actual = Buffer.from(digest, 'hex');
+    if (!crypto.timingSafeEqual(actual, expected)) {
+      return { valid: false, reason: 'signature_mismatch', kid };
+    }
+    return { valid: true, kid };
   }
 
   /**
@@ -294,7 +672,7 @@ export class Vortex {
    *
    * @param params - Object containing user and optional additional properties
    * @param params.user - User object with id, email, and optional adminScopes
-   * @param options - Optional configuration (expiresIn)
+   * @param options - Optional configuration (expiresIn or expiresAt, audience, issuer, subject, notBefore, jti)
    * @returns JWT token string
    *
    * @example
@@ -312,28 +690,31 @@ export class Vortex {
    *   { user: { id: "user-123", email: "user@example.com" } },
    *   { expiresIn: '24h' }  // Custom expiration (default: 30 days)
    * );
+   *
+   * // Compound ('1h30m') and ISO-8601 ('PT15M') durations work too, or pass an absolute expiry
+   * const tokenUntilYearEnd = vortex.generateJwt(
+   *   { user: { id: "user-123", email: "user@example.com" } },
+   *   { expiresAt: new Date('2026-12-31T23:59:59Z') }
+   * );
    * ```
    */
   @VortexMethod({ category: 'authentication', since: '0.3.0' })
   generateJwt(params: { user: User; [key: string]: any }, options?: GenerateJwtOptions): string {
     const { user, ...rest } = params;
-    const { kid, key } = this.parseApiKey();
-
-    const expiresInSeconds =
-      options?.expiresIn !== undefined ? this.parseExpiresIn(options.expiresIn) : 2592000; // 30 days default
+    assertNoReservedClaims(rest);
 
     const now = Math.floor(Date.now() / 1000);
-    const expires = now + expiresInSeconds;
+    const expires = this.resolveExpiry(options, now);
 
-    // 🔐 Step 1: Derive signing key from API key + ID
-    const signingKey = this.deriveSigningKey(key, kid);
+    // 🔐 Step 1: Resolve the signing key (derived from API key + ID, or asymmetric)
+    const signer = this.tokenSigner();
 
     // 🧱 Step 2: Build header + payload
     const header = {
       iat: now,
-      alg: 'HS256',
+      alg: signer.alg,
       typ: 'JWT',
-      kid,
+      kid: signer.kid,
     };
 
     // Build payload with user data
@@ -343,6 +724,7 @@ export class Vortex {
       expires,
       // Include identifiers array for widget compatibility (VrtxAutojoin checks this)
       identifiers: user.email ? [{ type: 'email', value: user.email }] : [],
+      ...this.buildStandardClaims(options, now, user.id),
     };
 
     // Add name if present (prefer new property, fall back to deprecated)
@@ -383,52 +765,89 @@ export class Vortex {
 
     // 🧾 Step 4: Sign
     const toSign = `${headerB64}.${payloadB64}`;
-    const signature = Buffer.from(
-      crypto.createHmac('sha256', signingKey).update(toSign).digest()
-    ).toString('base64url');
+    const signature = signer.sign(toSign).toString('base64url');
     const jwt = `${toSign}.${signature}`;
     return jwt;
   }
 
   /**
-   * Parse an expiration time string or number into seconds
-   * Supports: '5m', '1h', '24h', '7d' or raw seconds as number
+   * Parse a duration string or number into seconds
+   * Supports: '90s', '5m', '1h', '7d', '2w', compound durations like '1h30m',
+   * ISO-8601 durations like 'PT15M' or 'P1DT12H', or raw seconds as number
    */
-  private parseExpiresIn(expiresIn: string | number): number {
+  private parseExpiresIn(expiresIn: string | number, optionName = 'expiresIn'): number {
     if (typeof expiresIn === 'number') {
       if (!Number.isFinite(expiresIn) || !Number.isInteger(expiresIn) || expiresIn <= 0) {
         throw new Error(
-          `Invalid expiresIn value: "${expiresIn}". Numeric expiresIn must be a positive integer number of seconds.`
+          `Invalid ${optionName} value: "${expiresIn}". Numeric ${optionName} must be a positive integer number of seconds.`
         );
       }
       return expiresIn;
     }
 
-    const match = expiresIn.match(/^(\d+)(m|h|d)$/);
+    // Both patterns match an empty duration ('' and 'P'), which are too short to be valid
+    const match =
+      expiresIn.length > 1
+        ? (COMPOUND_DURATION.exec(expiresIn) ?? ISO_DURATION.exec(expiresIn))
+        : null;
     if (!match) {
       throw new Error(
-        `Invalid expiresIn format: "${expiresIn}". Use format like "5m", "1h", "24h", "7d" or a number of seconds.`
+        `Invalid ${optionName} format: "${expiresIn}". Use format like "90s", "5m", "1h30m", "7d", "2w", "PT15M" or a number of seconds.`
       );
     }
 
-    const value = parseInt(match[1], 10);
-    if (value <= 0) {
+    const seconds = DURATION_UNIT_SECONDS.reduce(
+      (total, unitSeconds, index) =>
+        total + (match[index + 1] ? parseInt(match[index + 1], 10) * unitSeconds : 0),
+      0
+    );
+    if (seconds <= 0) {
       throw new Error(
-        `Invalid expiresIn value: "${expiresIn}". Duration must be positive (e.g., "5m", "1h", "7d").`
+        `Invalid ${optionName} value: "${expiresIn}". Duration must be positive (e.g., "5m", "1h", "7d").`
       );
     }
-    const unit = match[2];
+    return seconds;
+  }
+
+  /**
+   * Resolve the `exp` claim for a new token from `expiresIn` or `expiresAt`
+   * (default: 30 days), rejecting lifetimes longer than `maxTokenLifetime`.
+   */
+  private resolveExpiry(
+    options: GenerateJwtOptions | GenerateTokenOptions | undefined,
+    now: number
+  ): number {
+    let expires: number;
+    if (options?.expiresAt !== undefined) {
+      if (options.expiresIn !== undefined) {
+        throw new Error('Pass either expiresIn or expiresAt, not both');
+      }
+      const { expiresAt } = options;
+      expires = Math.floor(expiresAt instanceof Date ? expiresAt.getTime() / 1000 : expiresAt);
+      if (!Number.isFinite(expires)) {
+        throw new Error(
+          `Invalid expiresAt value: "${String(expiresAt)}". Use a Date or a Unix timestamp in seconds.`
+        );
+      }
+      if (expires <= now) {
+        throw new Error(
+          `Invalid expiresAt value: ${new Date(expires * 1000).toISOString()} is not in the future.`
+        );
+      }
+    } else {
+      expires =
+        now +
+        (options?.expiresIn !== undefined
+          ? this.parseExpiresIn(options.expiresIn)
+          : DEFAULT_TOKEN_LIFETIME_SECONDS);
+    }
 
-    switch (unit) {
-      case 'm':
-        return value * 60;
-      case 'h':
-        return value * 60 * 60;
-      case 'd':
-        return value * 60 * 60 * 24;
-      default:
-        throw new Error(`Unknown time unit: ${unit}`);
+    if (expires - now > this.maxTokenLifetimeSeconds) {
+      throw new Error(
+        `Token lifetime of ${expires - now} seconds exceeds maxTokenLifetime (${this.maxTokenLifetimeSeconds} seconds).`
+      );
     }
+    return expires;
   }
 
   /**
@@ -439,7 +858,7 @@ export class Vortex {
    * and authorize the request.
    *
    * @param payload - Data to sign (user, component, scope, vars, etc.)
-   * @param options - Optional configuration (expiresIn)
+   * @param options - Optional configuration (expiresIn or expiresAt, audience, issuer, subject, notBefore, jti)
    * @returns Signed JWT token string
    *
    * @example
@@ -477,10 +896,22 @@ export class Vortex {
    *   { expiresIn: '1h' }  // Custom expiration (default: 30 days)
    * );
    * ```
+   *
+   * @example
+   * ```typescript
+   * // Standard claims: scope the token to one service and make it single-use
+   * const token = vortex.generateToken(
+   *   { user: { id: 'user-123' } },
+   *   { audience: 'widget-backend', issuer: 'billing-service', jti: true, expiresIn: '5m' }
+   * );
+   * // sub defaults to 'user-123'
+   * ```
    */
   @VortexPrimary()
   @VortexMethod({ category: 'authentication', since: '0.8.0' })
   generateToken(payload: GenerateTokenData, options?: GenerateTokenOptions): string {
+    assertNoReservedClaims(payload);
+
     // Warn if user.id is missing - invitations won't be securely attributed
     // Use nullish check (not falsy) to allow id=0 as valid
     if (payload.user?.id === undefined || payload.user?.id === null) {
@@ -489,99 +920,640 @@ export class Vortex {
       );
     }
 
-    const { kid, key } = this.parseApiKey();
-
-    // Default expiry: 5 minutes
-    const expiresInSeconds =
-      options?.expiresIn !== undefined ? this.parseExpiresIn(options.expiresIn) : 30 * 24 * 60 * 60; // 30 days default
-
     const now = Math.floor(Date.now() / 1000);
-    const expires = now + expiresInSeconds;
-
-    // Derive signing key from API key + ID (same as generateJwt)
-    const signingKey = this.deriveSigningKey(key, kid);
-
-    // Build JWT header
-    const header = {
-      alg: 'HS256',
-      typ: 'JWT',
-      kid,
-    };
+    const expires = this.resolveExpiry(options, now);
 
     // Build JWT payload - include the signed data plus standard claims
-    const jwtPayload = {
+    return this.signJwt({
       ...payload,
       iat: now,
       exp: expires,
+      ...this.buildStandardClaims(options, now, payload.user?.id),
+    });
+  }
+
+  /**
+   * Sign a JWT payload with the token signing key (derived from the API key,
+   * or the first asymmetric `signingKey`)
+   */
+  private signJwt(payload: Record<string, unknown>, typ = 'JWT'): string {
+    const signer = this.tokenSigner();
+    const header = {
+      alg: signer.alg,
+      typ,
+      kid: signer.kid,
     };
 
     // Base64URL encode header and payload
     const headerB64 = Buffer.from(JSON.stringify(header)).toString('base64url');
-    const payloadB64 = Buffer.from(JSON.stringify(jwtPayload)).toString('base64url');
+    const payloadB64 = Buffer.from(JSON.stringify(payload)).toString('base64url');
 
     // Sign
     const toSign = `${headerB64}.${payloadB64}`;
-    const signature = Buffer.from(
-      crypto.createHmac('sha256', signingKey).update(toSign).digest()
-    ).toString('base64url');
+    const signature = signer.sign(toSign).toString('base64url');
 
     return `${toSign}.${signature}`;
   }
 
+  /**
+   * Generate a short-lived access token plus a refresh token, for frontends
+   * that keep a widget open longer than an access token should live.
+   *
+   * The access token is the same as from `generateToken()`. The refresh token
+   * carries the signed data and access token options, and `refreshToken()`
+   * exchanges it for a new pair until the refresh token expires. Refresh
+   * tokens have a `refresh+jwt` type header and a `vortex:refresh` audience,
+   * so JWT libraries that check either reject them as access tokens. With a
+   * `revocationStore`, each refresh token can be used only once, and
+   * `revokeToken()` on its `jti` ends the session.
+   *
+   * @param payload - Data to sign (user, component, scope, vars, etc.)
+   * @param options - Access token options, plus refreshExpiresIn
+   * @returns The access and refresh tokens with their lifetimes
+   *
+   * @example
+   * ```typescript
+   * app.post('/api/vortex-session', (req, res) => {
+   *   res.json(vortex.generateTokenPair({ user: { id: req.user.id } }, { expiresIn: '10m' }));
+   * });
+   * ```
+   */
+  @VortexMethod({ category: 'authentication', since: '0.21.0' })
+  generateTokenPair(payload: GenerateTokenData, options: GenerateTokenPairOptions = {}): TokenPair {
+    const {
+      expiresIn = DEFAULT_ACCESS_TOKEN_LIFETIME,
+      refreshExpiresIn = DEFAULT_REFRESH_TOKEN_LIFETIME,
+      ...claims
+    } = options;
+    const refreshExpires = this.resolveExpiry(
+      { expiresIn: refreshExpiresIn },
+      Math.floor(Date.now() / 1000)
+    );
+    return this.issueTokenPair(
+      payload,
+      { ...claims, expiresIn: this.parseExpiresIn(expiresIn) },
+      refreshExpires
+    );
+  }
+
+  /**
+   * Exchange a refresh token from `generateTokenPair()` for a new access
+   * token with the same signed data and a new refresh token. The new refresh
+   * token expires when the old one would have.
+   *
+   * With a `revocationStore`, the old refresh token is revoked, so a stolen
+   * refresh token cannot be used after its owner refreshes. Without one,
+   * every refresh token stays usable until it expires.
+   *
+   * @param refreshToken - The refresh token
+   * @returns The new access and refresh tokens with their lifetimes
+   * @throws {VortexTokenError} If the refresh token is invalid or expired
+   *   (same codes as `verifyToken()`), is not a refresh token
+   *   (`wrong_token_type`), or was revoked (`revoked`).
+   *
+   * @example
+   * ```typescript
+   * app.post('/api/vortex-session/refresh', async (req, res) => {
+   *   try {
+   *     res.json(await vortex.refreshToken(req.body.refreshToken));
+   *   } catch (err) {
+   *     res.status(401).json({ error: err.code });
+   *   }
+   * });
+   * ```
+   */
+  @VortexMethod({ category: 'authentication', since: '0.21.0' })
+  async refreshToken(refreshToken: string): Promise<TokenPair> {
+    const payload = this.verifySignedToken(refreshToken) as Record<string, any>;
+    if (
+      payload.tokenUse !== REFRESH_TOKEN_USE ||
+      payload.aud !== REFRESH_TOKEN_AUDIENCE ||
+      decodeJwtSegment(refreshToken.split('.')[0]).typ !== REFRESH_TOKEN_TYPE
+    ) {
+      throw new VortexTokenError('wrong_token_type', 'Token is not a refresh token');
+    }
+    const { data, access, jti, exp } = payload;
+    if (
+      !data ||
+      typeof data !== 'object' ||
+      !access ||
+      typeof access !== 'object' ||
+      typeof jti !== 'string'
+    ) {
+      throw new VortexTokenError('malformed', 'Refresh token is missing its data, access or jti claims');
+    }
+
+    // Revoke the refresh token in the same step that checks it, so concurrent
+    // refreshes with the same token cannot both succeed
+    if (this.revocationStore && !(await this.revocationStore.consume(jti, exp))) {
+      throw new VortexTokenError('revoked', `Refresh token ${jti} has been revoked`);
+    }
+    return this.issueTokenPair(data, access, exp);
+  }
+
+  /**
+   * Sign an access token and a refresh token that expires at `refreshExpires`.
+   * The access token never outlives the refresh token.
+   */
+  private issueTokenPair(
+    data: GenerateTokenData,
+    access: GenerateTokenPairOptions & { expiresIn: number },
+    refreshExpires: number
+  ): TokenPair {
+    const now = Math.floor(Date.now() / 1000);
+    const expiresIn = Math.min(access.expiresIn, refreshExpires - now);
+    const accessToken = this.generateToken(data, { ...access, expiresIn });
+    const refreshToken = this.signJwt(
+      {
+        tokenUse: REFRESH_TOKEN_USE,
+        aud: REFRESH_TOKEN_AUDIENCE,
+        data,
+        access,
+        iat: now,
+        exp: refreshExpires,
+        jti: crypto.randomUUID(),
+      },
+      REFRESH_TOKEN_TYPE
+    );
+    return { accessToken, expiresIn, refreshToken, refreshExpiresIn: refreshExpires - now };
+  }
+
+  /**
+   * Verify a token produced by `generateToken()` or `generateJwt()` and return its payload.
+   *
+   * Checks the HS256 signature (in constant time) against the signing key
+   * derived from the API key matching the `kid` header (primary or secondary),
+   * or an ES256/EdDSA signature against the configured `signingKey` with that
+   * `kid`, and the token's expiry, issue and not-before times. Pass `audience`
+   * or `issuer` to also require those claims.
+   *
+   * @param token - JWT string to verify
+   * @param options - Optional clock tolerance, maximum token age, audience and issuer
+   * @returns The signed payload, including `iat` and `exp`
+   * @throws {VortexTokenError} If the token is malformed, signed by another key,
+   *   tampered with, expired, not yet valid, too old, or for another audience
+   *   or issuer. `code` gives the reason.
+   *
+   * @example
+   * ```typescript
+   * app.use('/widget-api', (req, res, next) => {
+   *   try {
+   *     req.vortexToken = vortex.verifyToken(req.headers['x-vortex-token'], {
+   *       clockToleranceSec: 30,
+   *       maxAge: '1h',
+   *     });
+   *     next();
+   *   } catch (err) {
+   *     res.status(401).json({ error: err.code });
+   *   }
+   * });
+   * ```
+   */
+  @VortexMethod({ category: 'authentication', since: '0.21.0' })
+  verifyToken(token: string, options?: VerifyTokenOptions): VerifiedTokenPayload {
+    const payload = this.verifySignedToken(token, options);
+    if (isRefreshToken(token, payload)) {
+      throw new VortexTokenError(
+        'wrong_token_type',
+        'Refresh tokens cannot be used as access tokens; exchange them with refreshToken()'
+      );
+    }
+    return payload;
+  }
+
+  /**
+   * Check a token's signature and timing claims (and the audience and issuer
+   * options), whatever kind of token it is
+   */
+  private verifySignedToken(token: string, options?: VerifyTokenOptions): VerifiedTokenPayload {
+    const parts = typeof token === 'string' ? token.split('.') : [];
+    if (parts.length !== 3 || parts.some((part) => !part)) {
+      throw new VortexTokenError('malformed', 'Token must have three dot-separated parts');
+    }
+    const [headerB64, payloadB64, signatureB64] = parts;
+    const header = decodeJwtSegment(headerB64);
+    const payload = decodeJwtSegment(payloadB64);
+
+    if (header.alg === 'HS256') {
+      const apiKey = typeof header.kid === 'string' ? this.findApiKeyByKid(header.kid) : undefined;
+      if (!apiKey) {
+        throw new VortexTokenError(
+          'unknown_kid',
+          `Token was signed with key "${header.kid}", which does not match any configured API key`
+        );
+      }
+
+      // Constant-time signature comparison
+      const signingKey = this.deriveSigningKey(apiKey.key, apiKey.kid);
+      const expected = crypto
+        .createHmac('sha256', signingKey)
+        .update(`${headerB64}.${payloadB64}`)
+        .digest();
+      const actual = Buffer.from(signatureB64, 'base64url');
+      if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+        throw new VortexTokenError('invalid_signature', 'Token signature is invalid');
+      }
+    } else if (header.alg === 'ES256' || header.alg === 'EdDSA') {
+      const signingKey = this.signingKeys.find((key) => key.kid === header.kid);
+      if (!signingKey) {
+        throw new VortexTokenError(
+          'unknown_kid',
+          `Token was signed with key "${header.kid}", which does not match any configured signing key`
+        );
+      }
+      // The key, not the token header, decides the algorithm
+      if (signingKey.alg !== header.alg) {
+        throw new VortexTokenError(
+          'unsupported_algorithm',
+          `Token algorithm "${header.alg}" does not match signing key "${signingKey.kid}" (${signingKey.alg})`
+        );
+      }
+      const signature = Buffer.from(signatureB64, 'base64url');
+      if (!verifyWithKey(signingKey, `${headerB64}.${payloadB64}`, signature)) {
+        throw new VortexTokenError('invalid_signature', 'Token signature is invalid');
+      }
+    } else {
+      throw new VortexTokenError(
+        'unsupported_algorithm',
+        `Unsupported token algorithm: "${header.alg}". Expected "HS256", "ES256" or "EdDSA".`
+      );
+    }
+
+    // generateToken uses standard iat/exp claims; generateJwt puts iat in the
+    // header and the expiry in an `expires` payload field
+    const iat = payload.iat ?? header.iat;
+    const exp = payload.exp ?? payload.expires;
+    if (!Number.isFinite(iat) || !Number.isFinite(exp)) {
+      throw new VortexTokenError('malformed', 'Token is missing iat or exp claims');
+    }
+
+    const tolerance = options?.clockToleranceSec ?? 0;
+    const now = Math.floor(Date.now() / 1000);
+    if (now - tolerance >= exp) {
+      throw new VortexTokenError('expired', `Token expired at ${new Date(exp * 1000).toISOString()}`);
+    }
+    if (iat > now + tolerance) {
+      throw new VortexTokenError('not_yet_valid', 'Token was issued in the future');
+    }
+    if (payload.nbf !== undefined) {
+      if (!Number.isFinite(payload.nbf)) {
+        throw new VortexTokenError('malformed', 'Token nbf claim must be a number');
+      }
+      if (payload.nbf > now + tolerance) {
+        throw new VortexTokenError(
+          'not_yet_valid',
+          `Token is not valid before ${new Date(payload.nbf * 1000).toISOString()}`
+        );
+      }
+    }
+    if (options?.maxAge !== undefined) {
+      const maxAgeSeconds = this.parseExpiresIn(options.maxAge, 'maxAge');
+      if (now - tolerance - iat > maxAgeSeconds) {
+        throw new VortexTokenError(
+          'max_age_exceeded',
+          `Token was issued more than ${maxAgeSeconds} seconds ago`
+        );
+      }
+    }
+
+    if (options?.audience !== undefined) {
+      const expected = ([] as string[]).concat(options.audience);
+      const audiences = ([] as unknown[]).concat(payload.aud ?? []);
+      if (!audiences.some((aud) => expected.includes(aud as string))) {
+        throw new VortexTokenError(
+          'invalid_audience',
+          `Token audience does not include ${expected.map((aud) => `"${aud}"`).join(' or ')}`
+        );
+      }
+    }
+    if (options?.issuer !== undefined) {
+      const expected = ([] as string[]).concat(options.issuer);
+      if (!expected.includes(payload.iss)) {
+        throw new VortexTokenError('invalid_issuer', `Token issuer "${payload.iss}" is not accepted`);
+      }
+    }
+
+    return { ...payload, iat, exp } as VerifiedTokenPayload;
+  }
+
+  /**
+   * Verify a token like `verifyToken()`, then reject it if its `jti` has been
+   * revoked with `revokeToken()`. Tokens without a `jti` cannot be revoked
+   * and pass this check.
+   *
+   * @param token - JWT string to verify
+   * @param options - Same options as `verifyToken()`
+   * @returns The signed payload, including `iat` and `exp`
+   * @throws {VortexTokenError} With code `revoked` if the token was revoked,
+   *   or any code `verifyToken()` throws.
+   * @throws {Error} If the client has no `revocationStore`
+   *
+   * @example
+   * ```typescript
+   * app.use('/widget-api', async (req, res, next) => {
+   *   try {
+   *     req.vortexToken = await vortex.verifyActiveToken(req.headers['x-vortex-token']);
+   *     next();
+   *   } catch (err) {
+   *     res.status(401).json({ error: err.code });
+   *   }
+   * });
+   * ```
+   */
+  @VortexMethod({ category: 'authentication', since: '0.21.0' })
+  async verifyActiveToken(
+    token: string,
+    options?: VerifyTokenOptions
+  ): Promise<VerifiedTokenPayload> {
+    const store = this.requireRevocationStore('verifyActiveToken');
+    const payload = this.verifyToken(token, options);
+    if (payload.jti === undefined) {
+      return payload;
+    }
+    if (typeof payload.jti !== 'string') {
+      throw new VortexTokenError('malformed', 'Token jti claim must be a string');
+    }
+    if (await store.isRevoked(payload.jti)) {
+      throw new VortexTokenError('revoked', `Token ${payload.jti} has been revoked`);
+    }
+    return payload;
+  }
+
+  /**
+   * Revoke a token by its `jti` claim, so `verifyActiveToken()` rejects it
+   * from now on, e.g. when a user is removed from a workspace mid-session.
+   *
+   * @param jti - The token's `jti` claim
+   * @param until - When the revocation can be forgotten: the token's `exp`, as
+   *   a Date or Unix timestamp in seconds. Default: now plus `maxTokenLifetime`,
+   *   which outlasts any token this client generates.
+   * @throws {Error} If the client has no `revocationStore`
+   *
+   * @example
+   * ```typescript
+   * const vortex = new Vortex({
+   *   apiKey: process.env.VORTEX_API_KEY!,
+   *   revocationStore: new FileTokenRevocationStore({ path: './data/revoked-tokens.json' }),
+   * });
+   *
+   * // On sign-in: the token carries a random jti, remember it with the session
+   * const token = vortex.generateToken({ user: { id: user.id } }, { expiresIn: '1d' });
+   * session.vortexTokenId = vortex.verifyToken(token).jti;
+   *
+   * // On offboarding
+   * await vortex.revokeToken(session.vortexTokenId);
+   * ```
+   */
+  @VortexMethod({ category: 'authentication', since: '0.21.0' })
+  async revokeToken(jti: string, until?: Date | number): Promise<void> {
+    const store = this.requireRevocationStore('revokeToken');
+    if (typeof jti !== 'string' || jti === '') {
+      throw new Error('revokeToken requires a non-empty jti');
+    }
+    const untilSeconds =
+      until === undefined
+        ? Math.floor(Date.now() / 1000) + this.maxTokenLifetimeSeconds
+        : Math.floor(until instanceof Date ? until.getTime() / 1000 : until);
+    if (!Number.isFinite(untilSeconds)) {
+      throw new Error(
+        `Invalid until value: "${String(until)}". Use a Date or a Unix timestamp in seconds.`
+      );
+    }
+    await store.revoke(jti, untilSeconds);
+  }
+
+  private requireRevocationStore(method: string): TokenRevocationStore {
+    if (!this.revocationStore) {
+      throw new Error(`${method} requires a revocationStore`);
+    }
+    return this.revocationStore;
+  }
+
+  /**
+   * Build a JSON Web Key Set with the public half of every configured
+   * `signingKey`. Serve it (e.g. at `/.well-known/jwks.json`) so other
+   * services can verify Vortex tokens with any JWT library, without holding
+   * a key that can mint them.
+   *
+   * @returns The JWKS document
+   * @throws {Error} If the client has no asymmetric `signingKey`
+   *
+   * @example
+   * ```typescript
+   * const vortex = new Vortex({
+   *   apiKey: process.env.VORTEX_API_KEY!,
+   *   signingKey: { key: process.env.VORTEX_TOKEN_PRIVATE_KEY!, kid: 'tokens-2026-10' },
+   * });
+   *
+   * app.get('/.well-known/jwks.json', (req, res) => res.json(vortex.getJwks()));
+   * ```
+   */
+  @VortexMethod({ category: 'authentication', since: '0.21.0' })
+  getJwks(): TokenJwks {
+    if (this.signingKeys.length === 0) {
+      throw new Error('getJwks requires an asymmetric signingKey');
+    }
+    return { keys: this.signingKeys.map(toJwk) };
+  }
+
+  /**
+   * Make an authenticated request to the Vortex API.
+   *
+   * When retries are enabled (see `VortexClientOptions.retry`), GET and DELETE
+   * requests are retried on network errors and on 408, 429 and 5xx responses.
+   * Other requests are only retried when an idempotency key is supplied. A
+   * 401 response is retried immediately with each secondary API key in turn
+   * (this does not count as a retry attempt).
+   *
+   * @throws {VortexApiError} If the API responds with a non-2xx status. The
+   *   concrete subclass (e.g. `VortexNotFoundError`) depends on the status code.
+   * @throws {VortexTimeoutError} If the final attempt exceeds the timeout
+   */
   async vortexApiRequest(options: {
     method: 'GET' | 'POST' | 'PUT' | 'DELETE';
     path: string;
     body?: ApiRequestBody;
     queryParams?: Record<string, string | number | boolean>;
+    idempotencyKey?: string;
+    signal?: AbortSignal;
+    timeoutMs?: number;
   }): Promise<ApiResponseJson> {
-    const { method, path, body, queryParams } = options;
-    const url = new URL(
-      `${process.env.VORTEX_API_BASE_URL || 'https://api.vortexsoftware.com'}${path}`
-    );
+    const { method, path, body, queryParams, idempotencyKey, signal } = options;
+    assertValidTimeout(options.timeoutMs);
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const url = new URL(`${this.baseUrl}${path}`);
     if (queryParams) {
       Object.entries(queryParams).forEach(([key, value]) => {
         url.searchParams.append(key, String(value));
       });
     }
-    const results = await fetch(url.toString(), {
-      method,
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': this.apiKey,
-        'x-vortex-sdk-name': SDK_NAME,
-        'x-vortex-sdk-version': SDK_VERSION,
-      },
-      body: body ? JSON.stringify(body) : undefined,
-    });
-    if (!results.ok) {
-      const errorBody = await results.text();
-      throw new Error(
-        `Vortex API request failed: ${results.status} ${results.statusText} - ${errorBody}`
-      );
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.defaultHeaders,
+      'x-vortex-sdk-name': SDK_NAME,
+      'x-vortex-sdk-version': SDK_VERSION,
+      'user-agent': this.userAgent,
+    };
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
+
+    const apiKeys = [this.apiKey, ...this.secondaryApiKeys];
+    let apiKeyIndex = 0;
+
+    const retryable = IDEMPOTENT_METHODS.has(method) || !!idempotencyKey;
+    const maxAttempts = retryable ? this.retry.maxAttempts : 1;
+
+    // Resolve the global fetch per request so it can be replaced (e.g., by test spies)
+    const fetchImpl = this.fetchImpl ?? fetch;
+
+    for (let attempt = 1; ; attempt++) {
+      signal?.throwIfAborted();
+      const timeoutSignal = timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined;
+      const attemptSignal =
+        signal && timeoutSignal ? AbortSignal.any([signal, timeoutSignal]) : signal ?? timeoutSignal;
+
+      let results: Response;
+      let apiError: VortexApiError;
+      try {
+        results = await fetchImpl(url.toString(), {
+          method,
+          headers: { ...headers, 'x-api-key': apiKeys[apiKeyIndex] },
+          body: body ? JSON.stringify(body) : undefined,
+          signal: attemptSignal,
+        });
+        // Read the body here too: the attempt timeout still applies while it streams
+        if (results.ok) {
+          return await readJsonResponse(results);
+        }
+        apiError = await createApiError(results, { method, path });
+      } catch (error) {
+        // Caller cancellation is final — never retried
+        if (signal?.aborted) {
+          throw signal.reason;
+        }
+        const timedOut = timeoutSignal?.aborted ?? false;
+        // Network failure (or per-attempt timeout, also while reading the body) — retry if allowed
+        if (attempt >= maxAttempts) {
+          throw timedOut ? new VortexTimeoutError({ timeoutMs: timeoutMs!, method, path }) : error;
+        }
+        await sleep(this.backoffDelayMs(attempt), signal);
+        continue;
+      }
+
+      if (results.status === 401 && apiKeyIndex < apiKeys.length - 1) {
+        // Fall back to the next API key; this does not count as a retry attempt
+        apiKeyIndex++;
+        attempt--;
+        continue;
+      }
+      const delayMs =
+        attempt < maxAttempts && RETRYABLE_STATUSES.has(results.status)
+          ? this.retryDelayMs(attempt, results)
+          : null;
+      if (delayMs === null) {
+        throw apiError;
+      }
+      await sleep(delayMs, signal);
     }
+  }
 
-    // Check if response has content to parse
-    const contentLength = results.headers.get('content-length');
-    const contentType = results.headers.get('content-type');
+  /**
+   * Full-jitter exponential backoff: a random delay between 0 and
+   * min(maxDelayMs, baseDelayMs * 2^(attempt - 1)).
+   */
+  private backoffDelayMs(attempt: number): number {
+    const ceiling = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** (attempt - 1));
+    return Math.random() * ceiling;
+  }
 
-    // If no content or content-length is 0, return empty object
-    if (contentLength === '0' || (!contentType?.includes('application/json') && !contentLength)) {
-      return {};
+  /**
+   * Delay before retrying a failed response, honoring `Retry-After` on 429/503.
+   * Returns null when the server asks us to wait longer than `maxDelayMs`.
+   */
+  private retryDelayMs(attempt: number, response: Response): number | null {
+    if (response.status === 429 || response.status === 503) {
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      if (retryAfter !== null) {
+        const delayMs = retryAfter * 1000;
+        return delayMs <= this.retry.maxDelayMs ? delayMs : null;
+      }
     }
+    return this.backoffDelayMs(attempt);
+  }
 
-    // Try to get text first to check if there's actually content
-    const responseText = await results.text();
-    if (!responseText.trim()) {
-      return {};
+  /**
+   * Resolve the idempotency key for a state-changing request.
+   * A derived key is the SHA-256 of the request path and canonical JSON body,
+   * so identical requests to the same endpoint share a key.
+   */
+  private resolveIdempotencyKey(
+    path: string,
+    body: unknown,
+    options?: IdempotentRequestOptions
+  ): string | undefined {
+    if (options?.idempotencyKey) {
+      return options.idempotencyKey;
+    }
+    if (!options?.deriveIdempotencyKey) {
+      return undefined;
     }
+    const canonical = Vortex.canonicalJson((body ?? {}) as Record<string, any>);
+    return crypto.createHash('sha256').update(`${path}\n${canonical}`).digest('hex');
+  }
 
-    // Parse JSON if there's content
-    try {
-      return JSON.parse(responseText);
-    } catch (error) {
-      // If JSON parsing fails, return the text or empty object
-      return {};
+  /**
+   * Fetch one page from an invitation listing endpoint.
+   */
+  private async fetchInvitationPage<T>(
+    path: string,
+    queryParams: Record<string, string | number | boolean>,
+    options?: ListInvitationsOptions
+  ): Promise<InvitationPage<T>> {
+    const pageParams = { ...queryParams };
+    if (options?.cursor) {
+      pageParams.cursor = options.cursor;
     }
+    if (options?.limit !== undefined) {
+      pageParams.limit = options.limit;
+    }
+    const response = (await this.vortexApiRequest({
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
+      method: 'GET',
+      path,
+      queryParams: Object.keys(pageParams).length > 0 ? pageParams : undefined,
+    })) as { invitations: T[]; nextCursor?: string | null };
+    return {
+      invitations: transformInvitationResults(response.invitations),
+      nextCursor: response.nextCursor ?? null,
+    };
+  }
+
+  /**
+   * Iterate over every invitation from a listing endpoint, one page at a time.
+   */
+  private async *iterateInvitationPages<T>(
+    path: string,
+    queryParams: Record<string, string | number | boolean>,
+    options?: IterateInvitationsOptions
+  ): AsyncGenerator<T, void, undefined> {
+    const pageSize = options?.pageSize ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(pageSize) || pageSize <= 0) {
+      throw new Error(`Invalid pageSize value: "${pageSize}". Must be a positive integer.`);
+    }
+
+    let cursor = options?.cursor;
+    do {
+      const page: InvitationPage<T> = await this.fetchInvitationPage<T>(path, queryParams, {
+        signal: options?.signal,
+        timeoutMs: options?.timeoutMs,
+        cursor,
+        limit: pageSize,
+      });
+      yield* page.invitations;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
   }
 
   /**
@@ -589,6 +1561,7 @@ export class Vortex {
    *
    * @param targetType - The type of target identifier
    * @param targetValue - The target value to search for
+   * @param options - Optional cursor and limit for a single page, abort signal and timeout
    * @returns Array of invitation results matching the target
    *
    * @example
@@ -599,24 +1572,82 @@ export class Vortex {
   @VortexMethod({ category: 'invitations', since: '0.1.0' })
   async getInvitationsByTarget(
     targetType: 'email' | 'username' | 'phoneNumber',
-    targetValue: string
+    targetValue: string,
+    options?: ListInvitationsOptions
   ): Promise<InvitationResultBase[]> {
-    const response = (await this.vortexApiRequest({
-      method: 'GET',
-      path: '/api/v1/invitations',
-      queryParams: {
-        targetType,
-        targetValue,
-      },
-    })) as { invitations: InvitationResultBase[] };
-    return transformInvitationResults(response.invitations);
+    const page = await this.listInvitationsByTarget(targetType, targetValue, options);
+    return page.invitations;
+  }
+
+  /**
+   * Get one page of invitations for a target, with the cursor for the next page
+   *
+   * @param targetType - The type of target identifier
+   * @param targetValue - The target value to search for
+   * @param options - Optional cursor and limit, abort signal and timeout
+   * @returns The invitations on this page and the cursor for the next one (null on the last page)
+   *
+   * @example
+   * ```typescript
+   * let cursor: string | undefined;
+   * do {
+   *   const page = await vortex.listInvitationsByTarget('email', 'user@example.com', {
+   *     cursor,
+   *     limit: 50,
+   *   });
+   *   render(page.invitations);
+   *   cursor = page.nextCursor ?? undefined;
+   * } while (cursor);
+   * ```
+   */
+  @VortexMethod({ category: 'invitations', since: '0.21.0' })
+  async listInvitationsByTarget(
+    targetType: 'email' | 'username' | 'phoneNumber',
+    targetValue: string,
+    options?: ListInvitationsOptions
+  ): Promise<InvitationPage<InvitationResultBase>> {
+    return this.fetchInvitationPage<InvitationResultBase>(
+      '/api/v1/invitations',
+      { targetType, targetValue },
+      options
+    );
+  }
+
+  /**
+   * Iterate over all invitations for a target, fetching pages as needed
+   *
+   * @param targetType - The type of target identifier
+   * @param targetValue - The target value to search for
+   * @param options - Optional page size, starting cursor, abort signal and timeout
+   * @returns Async iterator of invitation results matching the target
+   *
+   * @example
+   * ```typescript
+   * for await (const invitation of vortex.iterateInvitationsByTarget('email', 'user@example.com')) {
+   *   console.log(invitation.id, invitation.status);
+   * }
+   * ```
+   */
+  @VortexMethod({ category: 'invitations', since: '0.21.0' })
+  iterateInvitationsByTarget(
+    targetType: 'email' | 'username' | 'phoneNumber',
+    targetValue: string,
+    options?: IterateInvitationsOptions
+  ): AsyncGenerator<InvitationResultBase, void, undefined> {
+    return this.iterateInvitationPages<InvitationResultBase>(
+      '/api/v1/invitations',
+      { targetType, targetValue },
+      options
+    );
   }
 
   /**
    * Get a single invitation by ID
    *
    * @param invitationId - The invitation ID to retrieve
+   * @param options - Optional abort signal and timeout
    * @returns The invitation details
+   * @throws {VortexNotFoundError} If no invitation exists with this ID
    *
    * @example
    * ```typescript
@@ -626,8 +1657,10 @@ export class Vortex {
    */
   @VortexPrimary()
   @VortexMethod({ category: 'invitations', since: '0.1.0' })
-  async getInvitation(invitationId: string): Promise<InvitationResult> {
+  async getInvitation(invitationId: string, options?: RequestOptions): Promise<InvitationResult> {
     const result = await this.vortexApiRequest({
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
       method: 'GET',
       path: `/api/v1/invitations/${invitationId}`,
     });
@@ -638,7 +1671,9 @@ export class Vortex {
    * Revoke (delete) an invitation
    *
    * @param invitationId - The invitation ID to revoke
+   * @param options - Optional abort signal and timeout
    * @returns Empty object on success
+   * @throws {VortexNotFoundError} If no invitation exists with this ID
    *
    * @example
    * ```typescript
@@ -646,8 +1681,10 @@ export class Vortex {
    * ```
    */
   @VortexMethod({ category: 'invitations', since: '0.1.0' })
-  async revokeInvitation(invitationId: string): Promise<{}> {
+  async revokeInvitation(invitationId: string, options?: RequestOptions): Promise<{}> {
     return this.vortexApiRequest({
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
       method: 'DELETE',
       path: `/api/v1/invitations/${invitationId}`,
     }) as Promise<{}>;
@@ -657,24 +1694,31 @@ export class Vortex {
    * Accept invitations using the new User format (preferred)
    * @param invitationIds - Array of invitation IDs to accept
    * @param user - User object with email or phone (and optional name)
+   * @param options - Optional idempotency key, abort signal and timeout
    * @returns Invitation result
    * @example
    * ```typescript
    * await vortex.acceptInvitations(['inv-123'], { email: 'user@example.com', name: 'John' });
    * ```
    */
-  async acceptInvitations(invitationIds: string[], user: AcceptUser): Promise<InvitationResult>;
+  async acceptInvitations(
+    invitationIds: string[],
+    user: AcceptUser,
+    options?: IdempotentRequestOptions
+  ): Promise<InvitationResult>;
 
   /**
    * Accept invitations using legacy target format (deprecated)
    * @deprecated Use the User format instead: acceptInvitations(invitationIds, { email: 'user@example.com' })
    * @param invitationIds - Array of invitation IDs to accept
    * @param target - Legacy target object with type and value
+   * @param options - Optional idempotency key, abort signal and timeout
    * @returns Invitation result
    */
   async acceptInvitations(
     invitationIds: string[],
-    target: InvitationTarget
+    target: InvitationTarget,
+    options?: IdempotentRequestOptions
   ): Promise<InvitationResult>;
 
   /**
@@ -683,11 +1727,13 @@ export class Vortex {
    * @deprecated Use the User format instead: acceptInvitations(invitationIds, { email: 'user@example.com' })
    * @param invitationIds - Array of invitation IDs to accept
    * @param targets - Array of legacy target objects
+   * @param options - Optional idempotency key (suffixed with the target index), abort signal and timeout
    * @returns Invitation result from the last acceptance
    */
   async acceptInvitations(
     invitationIds: string[],
-    targets: InvitationTarget[]
+    targets: InvitationTarget[],
+    options?: IdempotentRequestOptions
   ): Promise<InvitationResult>;
 
   /**
@@ -695,17 +1741,26 @@ export class Vortex {
    *
    * @param invitationIds - Array of invitation IDs to accept
    * @param userOrTarget - User object with email or phone, or legacy target format
+   * @param options - Optional idempotency key, abort signal and timeout
    * @returns The accepted invitation result
    *
    * @example
    * ```typescript
    * await vortex.acceptInvitations(['inv-123'], { email: 'user@example.com' });
+   *
+   * // Safe to retry after a timeout
+   * await vortex.acceptInvitations(
+   *   ['inv-123'],
+   *   { email: 'user@example.com' },
+   *   { deriveIdempotencyKey: true }
+   * );
    * ```
    */
   @VortexMethod({ category: 'invitations', since: '0.1.0' })
   async acceptInvitations(
     invitationIds: string[],
-    userOrTarget: AcceptUser | InvitationTarget | InvitationTarget[]
+    userOrTarget: AcceptUser | InvitationTarget | InvitationTarget[],
+    options?: IdempotentRequestOptions
   ): Promise<InvitationResult> {
     // Handle array of targets (legacy, call once per target)
     if (Array.isArray(userOrTarget)) {
@@ -713,8 +1768,12 @@ export class Vortex {
         '[Vortex SDK] DEPRECATED: Passing an array of targets is deprecated. Use the User format instead: acceptInvitations(invitationIds, { email: "user@example.com" })'
       );
       let lastResult: InvitationResult | undefined;
-      for (const target of userOrTarget) {
-        lastResult = await this.acceptInvitations(invitationIds, target);
+      for (const [index, target] of userOrTarget.entries()) {
+        // Each target is a separate request, so an explicit key must not be shared
+        const targetOptions = options?.idempotencyKey
+          ? { ...options, idempotencyKey: `${options.idempotencyKey}-${index}` }
+          : options;
+        lastResult = await this.acceptInvitations(invitationIds, target, targetOptions);
       }
       if (!lastResult) {
         throw new Error('No targets provided');
@@ -743,13 +1802,15 @@ export class Vortex {
       }
 
       // Make request with User format
+      const body: AcceptInvitationRequest = { invitationIds, user };
+      const path = `/api/v1/invitations/accept`;
       const response = (await this.vortexApiRequest({
+        signal: options?.signal,
+        timeoutMs: options?.timeoutMs,
         method: 'POST',
-        body: {
-          invitationIds,
-          user,
-        } as AcceptInvitationRequest,
-        path: `/api/v1/invitations/accept`,
+        body,
+        path,
+        idempotencyKey: this.resolveIdempotencyKey(path, body, options),
       })) as InvitationResult;
       return transformInvitationResult(response);
     }
@@ -762,13 +1823,15 @@ export class Vortex {
       throw new Error('User must have either email or phone');
     }
 
+    const body: AcceptInvitationRequest = { invitationIds, user };
+    const path = `/api/v1/invitations/accept`;
     const response = (await this.vortexApiRequest({
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
       method: 'POST',
-      body: {
-        invitationIds,
-        user,
-      } as AcceptInvitationRequest,
-      path: `/api/v1/invitations/accept`,
+      body,
+      path,
+      idempotencyKey: this.resolveIdempotencyKey(path, body, options),
     })) as InvitationResult;
     return transformInvitationResult(response);
   }
@@ -778,6 +1841,7 @@ export class Vortex {
    * This is the recommended method for accepting invitations.
    * @param invitationId - Single invitation ID to accept
    * @param user - User object with email or phone (and optional name)
+   * @param options - Optional idempotency key, abort signal and timeout
    * @returns Invitation result
    * @example
    * ```typescript
@@ -786,8 +1850,12 @@ export class Vortex {
    */
   @VortexPrimary()
   @VortexMethod({ category: 'invitations', since: '0.6.0' })
-  async acceptInvitation(invitationId: string, user: AcceptUser): Promise<InvitationResult> {
-    return this.acceptInvitations([invitationId], user);
+  async acceptInvitation(
+    invitationId: string,
+    user: AcceptUser,
+    options?: IdempotentRequestOptions
+  ): Promise<InvitationResult> {
+    return this.acceptInvitations([invitationId], user, options);
   }
 
   /**
@@ -796,6 +1864,7 @@ export class Vortex {
    * @deprecated Use deleteInvitationsByScope instead
    * @param groupType - The type of group (e.g., "team", "organization")
    * @param groupId - The group identifier
+   * @param options - Optional abort signal and timeout
    * @returns Empty object
    */
   @VortexMethod({
@@ -804,8 +1873,12 @@ export class Vortex {
     deprecated: true,
     deprecationMessage: 'Use deleteInvitationsByScope instead',
   })
-  async deleteInvitationsByGroup(groupType: string, groupId: string): Promise<{}> {
-    return this.deleteInvitationsByScope(groupType, groupId);
+  async deleteInvitationsByGroup(
+    groupType: string,
+    groupId: string,
+    options?: RequestOptions
+  ): Promise<{}> {
+    return this.deleteInvitationsByScope(groupType, groupId, options);
   }
 
   /**
@@ -814,6 +1887,7 @@ export class Vortex {
    * @deprecated Use getInvitationsByScope instead
    * @param groupType - The type of group (e.g., "team", "organization")
    * @param groupId - The group identifier
+   * @param options - Optional cursor and limit for a single page, abort signal and timeout
    * @returns Array of invitation results
    */
   @VortexMethod({
@@ -822,14 +1896,42 @@ export class Vortex {
     deprecated: true,
     deprecationMessage: 'Use getInvitationsByScope instead',
   })
-  async getInvitationsByGroup(groupType: string, groupId: string): Promise<InvitationResult[]> {
-    return this.getInvitationsByScope(groupType, groupId);
+  async getInvitationsByGroup(
+    groupType: string,
+    groupId: string,
+    options?: ListInvitationsOptions
+  ): Promise<InvitationResult[]> {
+    return this.getInvitationsByScope(groupType, groupId, options);
+  }
+
+  /**
+   * Get one page of invitations for a specific group, with the cursor for the next page
+   *
+   * @deprecated Use listInvitationsByScope instead
+   * @param groupType - The type of group (e.g., "team", "organization")
+   * @param groupId - The group identifier
+   * @param options - Optional cursor and limit, abort signal and timeout
+   * @returns The invitations on this page and the cursor for the next one (null on the last page)
+   */
+  @VortexMethod({
+    category: 'invitations',
+    since: '0.21.0',
+    deprecated: true,
+    deprecationMessage: 'Use listInvitationsByScope instead',
+  })
+  async listInvitationsByGroup(
+    groupType: string,
+    groupId: string,
+    options?: ListInvitationsOptions
+  ): Promise<InvitationPage<InvitationResult>> {
+    return this.listInvitationsByScope(groupType, groupId, options);
   }
 
   /**
    * Delete all invitations for a specific scope
    * @param scopeType - The type of scope (e.g., "team", "organization")
    * @param scope - The scope identifier (customer's scope ID)
+   * @param options - Optional abort signal and timeout
    * @returns Empty object
    *
    * @example
@@ -838,8 +1940,14 @@ export class Vortex {
    * ```
    */
   @VortexMethod({ category: 'invitations', since: '0.4.0' })
-  async deleteInvitationsByScope(scopeType: string, scope: string): Promise<{}> {
+  async deleteInvitationsByScope(
+    scopeType: string,
+    scope: string,
+    options?: RequestOptions
+  ): Promise<{}> {
     return this.vortexApiRequest({
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
       method: 'DELETE',
       path: `/api/v1/invitations/by-scope/${scopeType}/${scope}`,
     }) as Promise<{}>;
@@ -849,6 +1957,7 @@ export class Vortex {
    * Get all invitations for a specific scope
    * @param scopeType - The type of scope (e.g., "team", "organization")
    * @param scope - The scope identifier (customer's scope ID)
+   * @param options - Optional cursor and limit for a single page, abort signal and timeout
    * @returns Array of invitation results
    *
    * @example
@@ -857,18 +1966,83 @@ export class Vortex {
    * ```
    */
   @VortexMethod({ category: 'invitations', since: '0.4.0' })
-  async getInvitationsByScope(scopeType: string, scope: string): Promise<InvitationResult[]> {
-    const response = (await this.vortexApiRequest({
-      method: 'GET',
-      path: `/api/v1/invitations/by-scope/${scopeType}/${scope}`,
-    })) as { invitations: InvitationResult[] };
-    return transformInvitationResults(response.invitations);
+  async getInvitationsByScope(
+    scopeType: string,
+    scope: string,
+    options?: ListInvitationsOptions
+  ): Promise<InvitationResult[]> {
+    const page = await this.listInvitationsByScope(scopeType, scope, options);
+    return page.invitations;
+  }
+
+  /**
+   * Get one page of invitations for a specific scope, with the cursor for the next page
+   *
+   * @param scopeType - The type of scope (e.g., "team", "organization")
+   * @param scope - The scope identifier (customer's scope ID)
+   * @param options - Optional cursor and limit, abort signal and timeout
+   * @returns The invitations on this page and the cursor for the next one (null on the last page)
+   *
+   * @example
+   * ```typescript
+   * const page = await vortex.listInvitationsByScope('team', 'team-123', {
+   *   cursor: req.query.cursor,
+   *   limit: 50,
+   * });
+   * res.json({ invitations: page.invitations, nextCursor: page.nextCursor });
+   * ```
+   */
+  @VortexMethod({ category: 'invitations', since: '0.21.0' })
+  async listInvitationsByScope(
+    scopeType: string,
+    scope: string,
+    options?: ListInvitationsOptions
+  ): Promise<InvitationPage<InvitationResult>> {
+    return this.fetchInvitationPage<InvitationResult>(
+      `/api/v1/invitations/by-scope/${scopeType}/${scope}`,
+      {},
+      options
+    );
+  }
+
+  /**
+   * Iterate over all invitations for a specific scope, fetching pages as needed
+   *
+   * Use this instead of `getInvitationsByScope` for scopes with many
+   * invitations, so they are never all held in memory at once.
+   *
+   * @param scopeType - The type of scope (e.g., "team", "organization")
+   * @param scope - The scope identifier (customer's scope ID)
+   * @param options - Optional page size, starting cursor, abort signal and timeout
+   * @returns Async iterator of invitation results
+   *
+   * @example
+   * ```typescript
+   * for await (const invitation of vortex.iterateInvitationsByScope('team', 'team-123', {
+   *   pageSize: 500,
+   * })) {
+   *   await archive(invitation);
+   * }
+   * ```
+   */
+  @VortexMethod({ category: 'invitations', since: '0.21.0' })
+  iterateInvitationsByScope(
+    scopeType: string,
+    scope: string,
+    options?: IterateInvitationsOptions
+  ): AsyncGenerator<InvitationResult, void, undefined> {
+    return this.iterateInvitationPages<InvitationResult>(
+      `/api/v1/invitations/by-scope/${scopeType}/${scope}`,
+      {},
+      options
+    );
   }
 
   /**
    * Resend an invitation (reinvite)
    *
    * @param invitationId - The invitation ID to resend
+   * @param options - Optional abort signal and timeout
    * @returns The updated invitation
    *
    * @example
@@ -877,8 +2051,10 @@ export class Vortex {
    * ```
    */
   @VortexMethod({ category: 'invitations', since: '0.2.0' })
-  async reinvite(invitationId: string): Promise<InvitationResult> {
+  async reinvite(invitationId: string, options?: RequestOptions): Promise<InvitationResult> {
     const result = await this.vortexApiRequest({
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
       method: 'POST',
       path: `/api/v1/invitations/${invitationId}/reinvite`,
     });
@@ -890,6 +2066,7 @@ export class Vortex {
    *
    * @param scopeType - The type of scope (e.g., "organization", "team", "project")
    * @param scope - The scope identifier (customer's group ID)
+   * @param options - Optional abort signal and timeout
    * @returns Autojoin domains and associated invitation
    *
    * @example
@@ -899,8 +2076,14 @@ export class Vortex {
    * ```
    */
   @VortexMethod({ category: 'autojoin', since: '0.6.0' })
-  async getAutojoinDomains(scopeType: string, scope: string): Promise<AutojoinDomainsResponse> {
+  async getAutojoinDomains(
+    scopeType: string,
+    scope: string,
+    options?: RequestOptions
+  ): Promise<AutojoinDomainsResponse> {
     return this.vortexApiRequest({
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
       method: 'GET',
       path: `/api/v1/invitations/by-scope/${encodeURIComponent(scopeType)}/${encodeURIComponent(scope)}/autojoin`,
     }) as Promise<AutojoinDomainsResponse>;
@@ -919,6 +2102,7 @@ export class Vortex {
    * @param params.scopeName - Optional display name for the scope
    * @param params.domains - Array of domains to configure for autojoin
    * @param params.componentId - The component ID
+   * @param options - Optional abort signal and timeout
    * @returns Updated autojoin domains and associated invitation
    *
    * @example
@@ -933,8 +2117,13 @@ export class Vortex {
    * ```
    */
   @VortexMethod({ category: 'autojoin', since: '0.6.0' })
-  async configureAutojoin(params: ConfigureAutojoinRequest): Promise<AutojoinDomainsResponse> {
+  async configureAutojoin(
+    params: ConfigureAutojoinRequest,
+    options?: RequestOptions
+  ): Promise<AutojoinDomainsResponse> {
     const response = (await this.vortexApiRequest({
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
       method: 'POST',
       path: '/api/v1/invitations/autojoin',
       body: params as unknown as ApiRequestBody,
@@ -971,6 +2160,9 @@ export class Vortex {
    * @param params.templateVariables - Optional template variables for email customization
    * @param params.metadata - Optional metadata passed through to webhooks
    * @param params.unfurlConfig - Optional link unfurl (Open Graph) configuration
+   * @param options - Optional idempotency key, abort signal and timeout. Without
+   *   an idempotency key, a failed request is never retried, since retrying
+   *   could send a duplicate invitation.
    * @returns Created invitation with ID, short link, status, and creation timestamp
    *
    * @example
@@ -1001,15 +2193,27 @@ export class Vortex {
    *   source: 'internal',
    *   subtype: 'pymk', // Track this as a "People You May Know" invitation
    * });
+   *
+   * // Retry-safe: a timeout after the server committed will not send a duplicate
+   * const invitation = await vortex.createInvitation(params, {
+   *   idempotencyKey: `invite-${inviterId}-${inviteeEmail}`,
+   * });
    * ```
    */
   @VortexMethod({ category: 'invitations', since: '0.7.0', internal: true })
-  async createInvitation(params: CreateInvitationRequest): Promise<CreateInvitationResponse> {
+  async createInvitation(
+    params: CreateInvitationRequest,
+    options?: IdempotentRequestOptions
+  ): Promise<CreateInvitationResponse> {
     const transformedParams = transformCreateRequest(params);
+    const path = '/api/v1/invitations';
     return this.vortexApiRequest({
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
       method: 'POST',
-      path: '/api/v1/invitations',
+      path,
       body: transformedParams as unknown as ApiRequestBody,
+      idempotencyKey: this.resolveIdempotencyKey(path, transformedParams, options),
     }) as Promise<CreateInvitationResponse>;
   }
 
@@ -1024,6 +2228,7 @@ export class Vortex {
    * @param params.targetValue - The invitee's user ID
    * @param params.action - The action taken: "accepted" or "declined"
    * @param params.componentId - The widget component UUID
+   * @param options - Optional idempotency key, abort signal and timeout
    * @returns Object with processed count and invitation IDs
    *
    * @example
@@ -1039,12 +2244,17 @@ export class Vortex {
    */
   @VortexMethod({ category: 'invitations', since: '0.7.0' })
   async syncInternalInvitation(
-    params: SyncInternalInvitationRequest
+    params: SyncInternalInvitationRequest,
+    options?: IdempotentRequestOptions
   ): Promise<SyncInternalInvitationResponse> {
+    const path = '/api/v1/invitations/sync-internal-invitation';
     return this.vortexApiRequest({
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
       method: 'POST',
-      path: '/api/v1/invitations/sync-internal-invitation',
+      path,
       body: params as unknown as ApiRequestBody,
+      idempotencyKey: this.resolveIdempotencyKey(path, params, options),
     }) as Promise<SyncInternalInvitationResponse>;
   }
 }
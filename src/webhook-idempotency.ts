@@ -0,0 +1,134 @@
+/**
+ * Vortex Webhook Idempotency Stores
+ *
+ * Vortex retries webhook deliveries, so the same event can arrive more than
+ * once. When `VortexWebhooks` is given an idempotency store, `handleEvent`
+ * skips events whose ID the store has already recorded, and records an event
+ * only after its handlers succeed.
+ *
+ * Implement `WebhookIdempotencyStore` to back deduplication with Redis, SQL
+ * or any shared storage; the in-memory and file-backed stores here suit a
+ * single process.
+ */
+
+import { JsonFile } from './json-file';
+
+/**
+ * Records which webhook events have been processed.
+ *
+ * @example
+ * ```typescript
+ * // Redis-backed store, shared by every instance of your service
+ * const redisStore: WebhookIdempotencyStore = {
+ *   async has(eventId) {
+ *     return (await redis.exists(`vortex:webhook:${eventId}`)) === 1;
+ *   },
+ *   async add(eventId) {
+ *     await redis.set(`vortex:webhook:${eventId}`, '1', { EX: 7 * 24 * 60 * 60 });
+ *   },
+ * };
+ * ```
+ */
+export interface WebhookIdempotencyStore {
+  /** Whether an event with this ID has already been processed */
+  has(eventId: string): boolean | Promise<boolean>;
+  /** Record that an event with this ID was processed successfully */
+  add(eventId: string): void | Promise<void>;
+}
+
+/** Default number of event IDs the built-in stores remember */
+const DEFAULT_MAX_SIZE = 10_000;
+
+function assertValidMaxSize(maxSize: number): void {
+  if (!Number.isInteger(maxSize) || maxSize <= 0) {
+    throw new Error(`Invalid maxSize value: "${maxSize}". Must be a positive integer.`);
+  }
+}
+
+export interface MemoryWebhookIdempotencyStoreOptions {
+  /** Number of event IDs to remember; the least recently seen are evicted first. Default: 10000 */
+  maxSize?: number;
+}
+
+/**
+ * In-memory idempotency store with least-recently-used eviction.
+ * Processed IDs are lost when the process restarts.
+ */
+export class MemoryWebhookIdempotencyStore implements WebhookIdempotencyStore {
+  private readonly maxSize: number;
+  // Map iteration follows insertion order, so the first key is the least recently used
+  private readonly ids = new Map<string, true>();
+
+  constructor(options: MemoryWebhookIdempotencyStoreOptions = {}) {
+    this.maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+    assertValidMaxSize(this.maxSize);
+  }
+
+  has(eventId: string): boolean {
+    if (!this.ids.has(eventId)) return false;
+    // Refresh recency
+    this.ids.delete(eventId);
+    this.ids.set(eventId, true);
+    return true;
+  }
+
+  add(eventId: string): void {
+    this.ids.delete(eventId);
+    this.ids.set(eventId, true);
+    while (this.ids.size > this.maxSize) {
+      this.ids.delete(this.ids.keys().next().value as string);
+    }
+  }
+
+  /** The remembered IDs, least recently used first */
+  keys(): string[] {
+    return [...this.ids.keys()];
+  }
+}
+
+export interface FileWebhookIdempotencyStoreOptions {
+  /** Path of the JSON file that holds processed event IDs. Created on first write. */
+  path: string;
+  /** Number of event IDs to keep in the file. Default: 10000 */
+  maxSize?: number;
+}
+
+/**
+ * Idempotency store that persists processed event IDs to a JSON file, so
+ * deduplication survives restarts. Suitable for a single process; use a
+ * shared store (Redis, SQL) when several processes receive webhooks.
+ */
+export class FileWebhookIdempotencyStore implements WebhookIdempotencyStore {
+  private readonly file: JsonFile<MemoryWebhookIdempotencyStore>;
+
+  constructor(options: FileWebhookIdempotencyStoreOptions) {
+    if (!options.path) {
+      throw new Error('FileWebhookIdempotencyStore requires a path');
+    }
+    const maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+    assertValidMaxSize(maxSize);
+    this.file = new JsonFile({
+      path: options.path,
+      description: 'webhook idempotency',
+      empty: () => new MemoryWebhookIdempotencyStore({ maxSize }),
+      parse: (json) => {
+        if (!Array.isArray(json) || json.some((id) => typeof id !== 'string')) return undefined;
+        const ids = new MemoryWebhookIdempotencyStore({ maxSize });
+        for (const id of json as string[]) {
+          ids.add(id);
+        }
+        return ids;
+      },
+    });
+  }
+
+  async has(eventId: string): Promise<boolean> {
+    return (await this.file.load()).has(eventId);
+  }
+
+  async add(eventId: string): Promise<void> {
+    const ids = await this.file.load();
+    ids.add(eventId);
+    await this.file.save(() => ids.keys());
+  }
+}
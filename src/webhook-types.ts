@@ -59,17 +59,180 @@ export const AnalyticsEventTypes = {
 
 export type AnalyticsEventType = (typeof AnalyticsEventTypes)[keyof typeof AnalyticsEventTypes];
 
+/** All analytics event name string values */
+export const ALL_ANALYTICS_EVENT_TYPES: AnalyticsEventType[] = Object.values(AnalyticsEventTypes);
+
+// ─── Webhook Event Data (per event type) ───────────────────────────────
+
+/** A scope (group) attached to an invitation, as sent in webhook payloads */
+export interface WebhookScope {
+  /** Your scope identifier */
+  scopeId: string;
+  /** Scope type (e.g., "team", "organization") */
+  type: string;
+  /** Display name of the scope */
+  name?: string | null;
+}
+
+/** An invitation target, as sent in webhook payloads */
+export interface WebhookTarget {
+  type: 'email' | 'phone' | 'share' | 'internal';
+  value: string;
+  name?: string | null;
+}
+
+/** The user who accepted an invitation */
+export interface WebhookAcceptor {
+  email?: string;
+  phone?: string;
+  name?: string | null;
+  /** Your user ID, if known */
+  userId?: string;
+}
+
+/**
+ * Fields shared by every `invitation.*` event payload.
+ * Payloads may carry additional fields, so each data interface also allows
+ * unknown keys.
+ */
+export interface InvitationEventData {
+  invitationId: string;
+  invitationType?: 'single_use' | 'multi_use' | 'autojoin';
+  /** Invitation status after the change */
+  status?: string;
+  /** Your user ID for the inviter */
+  foreignCreatorId?: string;
+  widgetConfigurationId?: string;
+  target?: WebhookTarget;
+  /** Target email address, for email invitations */
+  targetEmail?: string;
+  scopes?: WebhookScope[];
+  /** Metadata passed to createInvitation */
+  metadata?: Record<string, unknown> | null;
+  [key: string]: unknown;
+}
+
+export interface InvitationCreatedData extends InvitationEventData {
+  source?: string;
+  subtype?: string | null;
+}
+
+export interface InvitationAcceptedData extends InvitationEventData {
+  acceptor?: WebhookAcceptor;
+  /** ISO-8601 timestamp of the acceptance */
+  acceptedAt?: string;
+}
+
+export interface InvitationDeactivatedData extends InvitationEventData {
+  /** Why the invitation was deactivated (e.g., 'revoked', 'expired', 'declined') */
+  reason?: string;
+}
+
+export interface InvitationEmailDeliveredData extends InvitationEventData {
+  email?: string;
+}
+
+export interface InvitationEmailBouncedData extends InvitationEventData {
+  email?: string;
+  /** Bounce classification reported by the mail provider (e.g., 'hard', 'soft') */
+  bounceType?: string;
+  /** Human-readable bounce reason from the mail provider */
+  bounceReason?: string;
+}
+
+export interface InvitationEmailOpenedData extends InvitationEventData {
+  email?: string;
+}
+
+export interface InvitationLinkClickedData extends InvitationEventData {
+  /** The invitation link that was clicked */
+  url?: string;
+}
+
+export interface InvitationReminderSentData extends InvitationEventData {
+  email?: string;
+  /** How many reminders have been sent for this invitation, including this one */
+  reminderCount?: number;
+}
+
+export interface DeploymentEventData {
+  deploymentId: string;
+  widgetConfigurationId?: string;
+  [key: string]: unknown;
+}
+
+export interface AbTestStartedData {
+  abTestId: string;
+  widgetConfigurationId?: string;
+  /** Variant labels under test */
+  variants?: string[];
+  [key: string]: unknown;
+}
+
+export interface AbTestWinnerDeclaredData {
+  abTestId: string;
+  widgetConfigurationId?: string;
+  /** Label of the winning variant */
+  winningVariant?: string;
+  [key: string]: unknown;
+}
+
+export interface MemberCreatedData {
+  /** Your user ID for the new member */
+  userId?: string;
+  email?: string;
+  /** Invitation that led to the membership, if any */
+  invitationId?: string;
+  scopes?: WebhookScope[];
+  [key: string]: unknown;
+}
+
+export interface GroupMemberAddedData {
+  /** Your user ID for the member */
+  userId?: string;
+  scope?: WebhookScope;
+  /** Invitation that led to the membership, if any */
+  invitationId?: string;
+  [key: string]: unknown;
+}
+
+export interface EmailComplainedData {
+  email?: string;
+  invitationId?: string;
+  /** Complaint classification reported by the mail provider */
+  complaintType?: string;
+  [key: string]: unknown;
+}
+
+/** Payload data for each webhook event type */
+export interface WebhookEventDataMap {
+  'invitation.created': InvitationCreatedData;
+  'invitation.accepted': InvitationAcceptedData;
+  'invitation.deactivated': InvitationDeactivatedData;
+  'invitation.email.delivered': InvitationEmailDeliveredData;
+  'invitation.email.bounced': InvitationEmailBouncedData;
+  'invitation.email.opened': InvitationEmailOpenedData;
+  'invitation.link.clicked': InvitationLinkClickedData;
+  'invitation.reminder.sent': InvitationReminderSentData;
+  'deployment.created': DeploymentEventData;
+  'deployment.deactivated': DeploymentEventData;
+  'abtest.started': AbTestStartedData;
+  'abtest.winner_declared': AbTestWinnerDeclaredData;
+  'member.created': MemberCreatedData;
+  'group.member.added': GroupMemberAddedData;
+  'email.complained': EmailComplainedData;
+}
+
 // ─── Webhook Event Payload (Vortex state changes) ──────────────────────
 
 /**
- * A Vortex webhook event representing a server-side state change.
- * Delivered to customer webhook endpoints when subscribed events occur.
+ * The envelope of a webhook event of one specific type.
  */
-export interface VortexWebhookEvent {
+export interface WebhookEventEnvelope<T extends WebhookEventType> {
   /** Unique event ID (for idempotency) */
   id: string;
   /** The semantic event type (e.g., 'invitation.accepted') */
-  type: WebhookEventType;
+  type: T;
   /** ISO-8601 timestamp of when the event occurred */
   timestamp: string;
   /** The account ID this event belongs to */
@@ -81,20 +244,89 @@ export interface VortexWebhookEvent {
   /** The database operation that triggered this event */
   operation: 'insert' | 'update' | 'delete';
   /** Event-specific payload data */
-  data: Record<string, unknown>;
+  data: WebhookEventDataMap[T];
 }
 
+/**
+ * A Vortex webhook event representing a server-side state change.
+ * Delivered to customer webhook endpoints when subscribed events occur.
+ *
+ * A discriminated union on `type`: checking `event.type` narrows `event.data`.
+ * Pass an event type to get that event alone, e.g.
+ * `VortexWebhookEvent<'invitation.accepted'>`.
+ */
+export type VortexWebhookEvent<T extends WebhookEventType = WebhookEventType> = {
+  [K in T]: WebhookEventEnvelope<K>;
+}[T];
+
+// ─── Analytics Event Payloads (per event name) ─────────────────────────
+
+/**
+ * Fields shared by every analytics event payload.
+ * Widgets may send additional fields, so each payload interface also allows
+ * unknown keys.
+ */
+export interface AnalyticsEventPayloadBase {
+  /** A/B test variant shown to the user, if any */
+  variant?: string;
+  [key: string]: unknown;
+}
+
+export interface WidgetLoadedPayload extends AnalyticsEventPayloadBase {
+  /** URL of the page the widget was loaded on */
+  pageUrl?: string;
+}
+
+export interface InvitationSentPayload extends AnalyticsEventPayloadBase {
+  invitationId?: string;
+  /** How the invitation was addressed (e.g., 'email', 'phone') */
+  targetType?: string;
+}
+
+export interface InvitationClickedPayload extends AnalyticsEventPayloadBase {
+  invitationId?: string;
+}
+
+export interface InvitationAcceptedPayload extends AnalyticsEventPayloadBase {
+  invitationId?: string;
+}
+
+export interface ShareTriggeredPayload extends AnalyticsEventPayloadBase {
+  /** Share channel (e.g., 'copy_link', 'sms', 'native') */
+  channel?: string;
+}
+
+/** Payload for each analytics event name */
+export interface AnalyticsEventPayloadMap {
+  widget_loaded: WidgetLoadedPayload;
+  invitation_sent: InvitationSentPayload;
+  invitation_clicked: InvitationClickedPayload;
+  invitation_accepted: InvitationAcceptedPayload;
+  share_triggered: ShareTriggeredPayload;
+}
+
+/**
+ * The payload type for an analytics event name: the typed payload for
+ * known names, a plain record for any other name.
+ */
+export type AnalyticsEventPayload<N extends string> = N extends AnalyticsEventType
+  ? AnalyticsEventPayloadMap[N]
+  : Record<string, unknown>;
+
 // ─── Analytics Event Payload (behavioral telemetry) ────────────────────
 
 /**
  * An analytics event representing client-side behavioral telemetry.
  * Delivered to customer webhook endpoints when analytics forwarding is enabled.
+ *
+ * Pass an event name to type its payload, e.g.
+ * `VortexAnalyticsEvent<'invitation_sent'>`.
  */
-export interface VortexAnalyticsEvent {
+export interface VortexAnalyticsEvent<N extends string = string> {
   /** Unique event ID */
   id: string;
   /** The analytics event name */
-  name: string;
+  name: N;
   /** The account ID */
   accountId: string;
   /** Organization/project identifiers */
@@ -110,7 +342,7 @@ export interface VortexAnalyticsEvent {
   /** Analytics session ID */
   sessionId: string | null;
   /** Event-specific payload */
-  payload: Record<string, unknown> | null;
+  payload: AnalyticsEventPayload<N> | null;
   /** Client platform (web, ios, android) */
   platform: string | null;
   /** Segmentation label (e.g., A/B test variant) */
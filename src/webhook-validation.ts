@@ -0,0 +1,314 @@
+/**
+ * Vortex Webhook Payload Validation
+ *
+ * Dependency-free runtime checks that a parsed webhook body matches the
+ * `VortexWebhookEvent` or `VortexAnalyticsEvent` shape. `VortexWebhooks`
+ * runs these when created with the `validate` option.
+ */
+
+import {
+  ALL_ANALYTICS_EVENT_TYPES,
+  ALL_WEBHOOK_EVENT_TYPES,
+  AnalyticsEventType,
+  WebhookEventType,
+} from './webhook-types';
+
+/**
+ * How strictly to validate webhook payloads
+ * - strict: reject unknown event types, unknown analytics event names and unknown envelope fields
+ * - lenient: keep unknown event types and fields, and check only the fields the SDK knows
+ */
+export type WebhookValidationMode = 'strict' | 'lenient';
+
+/** One problem found in a webhook payload */
+export interface WebhookPayloadIssue {
+  /** Path to the offending field, e.g. `data.scopes[0].scopeId` (empty for the payload itself) */
+  path: string;
+  /** What is wrong with the field */
+  message: string;
+}
+
+// ─── Schemas ───────────────────────────────────────────────────────────
+
+type FieldSchema =
+  | { kind: 'string'; values?: readonly string[] }
+  | { kind: 'number' }
+  | { kind: 'array'; items: FieldSchema }
+  | { kind: 'object'; fields: Record<string, Field>; closed?: boolean };
+
+/** A field within an object schema */
+interface Field {
+  schema: FieldSchema;
+  optional?: boolean;
+  nullable?: boolean;
+}
+
+const string = (values?: readonly string[]): FieldSchema => ({ kind: 'string', values });
+const number = (): FieldSchema => ({ kind: 'number' });
+const arrayOf = (items: FieldSchema): FieldSchema => ({ kind: 'array', items });
+const object = (fields: Record<string, Field>, closed = false): FieldSchema => ({
+  kind: 'object',
+  fields,
+  closed,
+});
+
+const required = (schema: FieldSchema): Field => ({ schema });
+const optional = (schema: FieldSchema): Field => ({ schema, optional: true });
+const nullable = (schema: FieldSchema): Field => ({ schema, nullable: true });
+const optionalNullable = (schema: FieldSchema): Field => ({
+  schema,
+  optional: true,
+  nullable: true,
+});
+
+const scopeSchema = object({
+  scopeId: required(string()),
+  type: required(string()),
+  name: optionalNullable(string()),
+});
+
+const invitationFields: Record<string, Field> = {
+  invitationId: required(string()),
+  invitationType: optional(string(['single_use', 'multi_use', 'autojoin'])),
+  status: optional(string()),
+  foreignCreatorId: optional(string()),
+  widgetConfigurationId: optional(string()),
+  target: optional(
+    object({
+      type: required(string(['email', 'phone', 'share', 'internal'])),
+      value: required(string()),
+      name: optionalNullable(string()),
+    })
+  ),
+  targetEmail: optional(string()),
+  scopes: optional(arrayOf(scopeSchema)),
+  metadata: optionalNullable(object({})),
+};
+
+function invitationData(fields: Record<string, Field> = {}): FieldSchema {
+  return object({ ...invitationFields, ...fields });
+}
+
+const DATA_SCHEMAS: Record<WebhookEventType, FieldSchema> = {
+  'invitation.created': invitationData({
+    source: optional(string()),
+    subtype: optionalNullable(string()),
+  }),
+  'invitation.accepted': invitationData({
+    acceptor: optional(
+      object({
+        email: optional(string()),
+        phone: optional(string()),
+        name: optionalNullable(string()),
+        userId: optional(string()),
+      })
+    ),
+    acceptedAt: optional(string()),
+  }),
+  'invitation.deactivated': invitationData({ reason: optional(string()) }),
+  'invitation.email.delivered': invitationData({ email: optional(string()) }),
+  'invitation.email.bounced': invitationData({
+    email: optional(string()),
+    bounceType: optional(string()),
+    bounceReason: optional(string()),
+  }),
+  'invitation.email.opened': invitationData({ email: optional(string()) }),
+  'invitation.link.clicked': invitationData({ url: optional(string()) }),
+  'invitation.reminder.sent': invitationData({
+    email: optional(string()),
+    reminderCount: optional(number()),
+  }),
+  'deployment.created': object({
+    deploymentId: required(string()),
+    widgetConfigurationId: optional(string()),
+  }),
+  'deployment.deactivated': object({
+    deploymentId: required(string()),
+    widgetConfigurationId: optional(string()),
+  }),
+  'abtest.started': object({
+    abTestId: required(string()),
+    widgetConfigurationId: optional(string()),
+    variants: optional(arrayOf(string())),
+  }),
+  'abtest.winner_declared': object({
+    abTestId: required(string()),
+    widgetConfigurationId: optional(string()),
+    winningVariant: optional(string()),
+  }),
+  'member.created': object({
+    userId: optional(string()),
+    email: optional(string()),
+    invitationId: optional(string()),
+    scopes: optional(arrayOf(scopeSchema)),
+  }),
+  'group.member.added': object({
+    userId: optional(string()),
+    scope: optional(scopeSchema),
+    invitationId: optional(string()),
+  }),
+  'email.complained': object({
+    email: optional(string()),
+    invitationId: optional(string()),
+    complaintType: optional(string()),
+  }),
+};
+
+function analyticsPayload(fields: Record<string, Field> = {}): FieldSchema {
+  return object({ variant: optional(string()), ...fields });
+}
+
+const PAYLOAD_SCHEMAS: Record<AnalyticsEventType, FieldSchema> = {
+  widget_loaded: analyticsPayload({ pageUrl: optional(string()) }),
+  invitation_sent: analyticsPayload({
+    invitationId: optional(string()),
+    targetType: optional(string()),
+  }),
+  invitation_clicked: analyticsPayload({ invitationId: optional(string()) }),
+  invitation_accepted: analyticsPayload({ invitationId: optional(string()) }),
+  share_triggered: analyticsPayload({ channel: optional(string()) }),
+};
+
+function webhookEnvelope(mode: WebhookValidationMode, data: FieldSchema): FieldSchema {
+  return object(
+    {
+      id: required(string()),
+      type: required(string(mode === 'strict' ? ALL_WEBHOOK_EVENT_TYPES : undefined)),
+      timestamp: required(string()),
+      accountId: required(string()),
+      environmentId: nullable(string()),
+      sourceTable: required(string()),
+      operation: required(string(['insert', 'update', 'delete'])),
+      data: required(data),
+    },
+    mode === 'strict'
+  );
+}
+
+function analyticsEnvelope(mode: WebhookValidationMode, payload: FieldSchema): FieldSchema {
+  return object(
+    {
+      id: required(string()),
+      name: required(string(mode === 'strict' ? ALL_ANALYTICS_EVENT_TYPES : undefined)),
+      accountId: required(string()),
+      organizationId: required(string()),
+      projectId: required(string()),
+      environmentId: required(string()),
+      deploymentId: nullable(string()),
+      widgetConfigurationId: nullable(string()),
+      foreignUserId: nullable(string()),
+      sessionId: nullable(string()),
+      payload: nullable(payload),
+      platform: nullable(string()),
+      segmentation: nullable(string()),
+      timestamp: required(string()),
+    },
+    mode === 'strict'
+  );
+}
+
+// ─── Validator ─────────────────────────────────────────────────────────
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/** The schema for a known event type or name, or an open object schema for unknown ones */
+function schemaFor(schemas: Record<string, FieldSchema>, key: unknown): FieldSchema {
+  return typeof key === 'string' && Object.prototype.hasOwnProperty.call(schemas, key)
+    ? schemas[key]
+    : object({});
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function check(value: unknown, schema: FieldSchema, path: string, issues: WebhookPayloadIssue[]) {
+  switch (schema.kind) {
+    case 'string':
+      if (typeof value !== 'string') {
+        issues.push({ path, message: `expected string, got ${describe(value)}` });
+      } else if (schema.values && !schema.values.includes(value)) {
+        issues.push({ path, message: `unexpected value "${value}"` });
+      }
+      return;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path, message: `expected number, got ${describe(value)}` });
+      }
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected array, got ${describe(value)}` });
+        return;
+      }
+      value.forEach((item, index) => check(item, schema.items, `${path}[${index}]`, issues));
+      return;
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        issues.push({ path, message: `expected object, got ${describe(value)}` });
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const [key, field] of Object.entries(schema.fields)) {
+        const fieldValue = record[key];
+        if (fieldValue === undefined) {
+          if (!field.optional) {
+            issues.push({ path: joinPath(path, key), message: 'is required' });
+          }
+        } else if (!(fieldValue === null && field.nullable)) {
+          check(fieldValue, field.schema, joinPath(path, key), issues);
+        }
+      }
+      if (schema.closed) {
+        for (const key of Object.keys(record)) {
+          if (!(key in schema.fields)) {
+            issues.push({ path: joinPath(path, key), message: 'is not a known field' });
+          }
+        }
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Check a parsed webhook body against the `VortexWebhookEvent` or
+ * `VortexAnalyticsEvent` schema. Payloads with a `name` field are checked as
+ * analytics events, all others as webhook events.
+ *
+ * @param payload - The parsed JSON body
+ * @param mode - 'strict' (default) or 'lenient'
+ * @returns The problems found; empty if the payload is valid
+ *
+ * @example
+ * ```typescript
+ * const issues = validateWebhookPayload(JSON.parse(rawBody), 'lenient');
+ * if (issues.length > 0) {
+ *   console.warn('Unexpected webhook payload', issues);
+ * }
+ * ```
+ */
+export function validateWebhookPayload(
+  payload: unknown,
+  mode: WebhookValidationMode = 'strict'
+): WebhookPayloadIssue[] {
+  const issues: WebhookPayloadIssue[] = [];
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    issues.push({ path: '', message: `expected object, got ${describe(payload)}` });
+    return issues;
+  }
+
+  const record = payload as Record<string, unknown>;
+  if ('name' in record) {
+    const payloadSchema = schemaFor(PAYLOAD_SCHEMAS, record.name);
+    check(record, analyticsEnvelope(mode, payloadSchema), '', issues);
+  } else {
+    const dataSchema = schemaFor(DATA_SCHEMAS, record.type);
+    check(record, webhookEnvelope(mode, dataSchema), '', issues);
+  }
+  return issues;
+}
@@ -4,9 +4,17 @@ import {
   VortexAnalyticsEvent,
   VortexEvent,
   WebhookEventType,
+  AnalyticsEventType,
+  ALL_ANALYTICS_EVENT_TYPES,
   isWebhookEvent,
   isAnalyticsEvent,
 } from './webhook-types';
+import type { WebhookIdempotencyStore } from './webhook-idempotency';
+import {
+  WebhookPayloadIssue,
+  WebhookValidationMode,
+  validateWebhookPayload,
+} from './webhook-validation';
 
 // ─── Errors ────────────────────────────────────────────────────────────
 
@@ -20,10 +28,143 @@ export class VortexWebhookSignatureError extends Error {
   }
 }
 
+/**
+ * Thrown when a webhook has a valid timestamped signature, but its timestamp
+ * is outside the allowed tolerance window — e.g. a captured request being replayed.
+ */
+export class VortexWebhookTimestampError extends VortexWebhookSignatureError {
+  /** The signed timestamp, in seconds since the epoch */
+  readonly timestamp: number;
+  /** The tolerance that was exceeded, in seconds */
+  readonly toleranceSec: number;
+
+  constructor(message: string, timestamp: number, toleranceSec: number) {
+    super(message);
+    this.name = 'VortexWebhookTimestampError';
+    this.timestamp = timestamp;
+    this.toleranceSec = toleranceSec;
+  }
+}
+
+/**
+ * Thrown by `constructEvent` when payload validation is enabled and the
+ * verified body is not valid JSON or does not match the event schema.
+ */
+export class VortexWebhookPayloadError extends Error {
+  /** Every problem found, each with the path of the offending field */
+  readonly issues: WebhookPayloadIssue[];
+
+  constructor(message: string, issues: WebhookPayloadIssue[]) {
+    super(message);
+    this.name = 'VortexWebhookPayloadError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Thrown by `handleEvent` when `stopOnError` is false and more than one
+ * handler failed. A single failure is rethrown as-is.
+ */
+export class VortexWebhookHandlerError extends Error {
+  /** The errors thrown by each failed handler, in handler order */
+  readonly errors: unknown[];
+
+  constructor(message: string, errors: unknown[]) {
+    super(message);
+    this.name = 'VortexWebhookHandlerError';
+    this.errors = errors;
+  }
+}
+
+// ─── Signature Scheme ──────────────────────────────────────────────────
+
+/** Default tolerance for timestamped signatures, in seconds */
+const DEFAULT_TOLERANCE_SEC = 300;
+
+/**
+ * A parsed `X-Vortex-Signature` header. Timestamped headers have the form
+ * `t=<unix seconds>,v1=<hex digest>` (with one or more `v1` entries) and sign
+ * `${t}.${payload}`; legacy headers are a bare hex digest of the payload.
+ */
+interface ParsedSignatureHeader {
+  timestamp: number | null;
+  signatures: string[];
+}
+
+function parseSignatureHeader(header: string): ParsedSignatureHeader {
+  if (!header.includes('=')) {
+    return { timestamp: null, signatures: [header.trim()] };
+  }
+
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+  for (const part of header.split(',')) {
+    const index = part.indexOf('=');
+    const key = part.slice(0, index).trim();
+    const value = part.slice(index + 1).trim();
+    if (key === 't' && /^\d+$/.test(value)) {
+      timestamp = Number(value);
+    } else if (key === 'v1' && value) {
+      signatures.push(value);
+    }
+  }
+  // A timestamped header without a usable timestamp cannot be verified
+  return timestamp === null ? { timestamp: null, signatures: [] } : { timestamp, signatures };
+}
+
+function computeSignature(
+  secret: string,
+  payload: string | Buffer,
+  timestamp: number | null,
+): string {
+  const hmac = crypto.createHmac('sha256', secret);
+  if (timestamp !== null) {
+    hmac.update(`${timestamp}.`);
+  }
+  return hmac.update(payload).digest('hex');
+}
+
+function assertValidTolerance(toleranceSec: number): void {
+  if (typeof toleranceSec !== 'number' || Number.isNaN(toleranceSec) || toleranceSec < 0) {
+    throw new Error(`Invalid toleranceSec value: "${toleranceSec}". Must be a non-negative number.`);
+  }
+}
+
 // ─── Handler Types ─────────────────────────────────────────────────────
 
-/** Handler for a specific webhook event type */
-export type WebhookEventTypeHandler = (event: VortexWebhookEvent) => void | Promise<void>;
+/** Handler for a specific webhook event type, receiving that event type only */
+export type WebhookEventTypeHandler<T extends WebhookEventType = WebhookEventType> = (
+  event: VortexWebhookEvent<T>
+) => void | Promise<void>;
+
+/** Wildcard keys for each dot-separated prefix of an event type, e.g. `invitation.*` and `invitation.email.*` */
+type PrefixPatterns<T extends string, Prefix extends string = ''> = T extends `${infer Head}.${infer Rest}`
+  ? `${Prefix}${Head}.*` | PrefixPatterns<Rest, `${Prefix}${Head}.`>
+  : never;
+
+/**
+ * A wildcard key in `on`: `*` matches every webhook event, and a prefix
+ * ending in `.*` (e.g. `invitation.*`, `invitation.email.*`) matches every
+ * event type under that prefix.
+ */
+export type WebhookEventPattern = '*' | PrefixPatterns<WebhookEventType>;
+
+/** The webhook event types matched by a key of `on` */
+export type WebhookEventTypesMatching<K extends string> = K extends '*'
+  ? WebhookEventType
+  : K extends `${infer Prefix}.*`
+    ? Extract<WebhookEventType, `${Prefix}.${string}`>
+    : Extract<WebhookEventType, K>;
+
+/**
+ * Handlers keyed by webhook event type or wildcard pattern. Each key takes
+ * one handler or an array of handlers.
+ */
+export type WebhookEventTypeHandlers = {
+  [K in WebhookEventType | WebhookEventPattern]?:
+    | WebhookEventTypeHandler<WebhookEventTypesMatching<K>>
+    | WebhookEventTypeHandler<WebhookEventTypesMatching<K>>[];
+};
 
 /** Handler for any webhook event */
 export type WebhookEventHandler = (event: VortexWebhookEvent) => void | Promise<void>;
@@ -31,20 +172,57 @@ export type WebhookEventHandler = (event: VortexWebhookEvent) => void | Promise<
 /** Handler for analytics events */
 export type AnalyticsEventHandler = (event: VortexAnalyticsEvent) => void | Promise<void>;
 
+/** Handler for a specific analytics event name, receiving that event only */
+export type AnalyticsEventNameHandler<N extends AnalyticsEventType = AnalyticsEventType> = (
+  event: VortexAnalyticsEvent<N>
+) => void | Promise<void>;
+
+/** Name-specific analytics handlers, keyed by analytics event name */
+export type AnalyticsEventNameHandlers = {
+  [N in AnalyticsEventType]?: AnalyticsEventNameHandler<N>;
+};
+
+/**
+ * Middleware around webhook event dispatch, registered with
+ * `VortexWebhooks.use()` or the `middleware` option.
+ *
+ * Call `next()` to continue to the next middleware and then the handlers,
+ * or `next(event)` to pass a transformed event downstream. Return without
+ * calling `next` to skip the handlers for this event.
+ */
+export type WebhookMiddleware = (
+  event: VortexEvent,
+  next: (event?: VortexEvent) => Promise<void>
+) => void | Promise<void>;
+
 /**
  * Webhook handler configuration.
  * Customers pass this to framework-specific handler factories.
  */
 export interface WebhookHandlers {
   /**
-   * Handle specific webhook event types by name.
-   * These run before `onEvent`.
+   * Handle specific webhook event types by name or wildcard pattern.
+   * Each handler receives the event narrowed to the types its key matches,
+   * so `event.data` is typed for that event.
+   *
+   * Handlers run in a fixed order: the exact event type first, then
+   * wildcard patterns from most to least specific (`invitation.email.*`,
+   * then `invitation.*`, then `*`), then `onEvent`. A key with an array
+   * runs its handlers in array order.
    *
    * @example
    * ```typescript
    * on: {
-   *   'invitation.accepted': async (event) => {
-   *     await db.activateUser(event.data.targetEmail);
+   *   'invitation.accepted': [
+   *     async (event) => {
+   *       await db.activateUser(event.data.targetEmail);
+   *     },
+   *     async (event) => {
+   *       await crm.markConverted(event.data.invitationId);
+   *     },
+   *   ],
+   *   'invitation.email.*': async (event) => {
+   *     await metrics.increment(`email.${event.type}`);
    *   },
    *   'member.created': async (event) => {
    *     await analytics.track('new_member', event.data);
@@ -52,38 +230,253 @@ export interface WebhookHandlers {
    * }
    * ```
    */
-  on?: Partial<Record<WebhookEventType, WebhookEventTypeHandler>>;
+  on?: WebhookEventTypeHandlers;
 
   /**
    * Handle all Vortex webhook events (state changes).
-   * Runs after any matching `on` handler.
+   * Runs after every matching `on` handler.
    */
   onEvent?: WebhookEventHandler;
 
   /**
-   * Handle analytics events (behavioral telemetry).
+   * Handle specific analytics events by name.
+   * These run before `onAnalyticsEvent`. Each handler receives the event
+   * narrowed to its name, so `event.payload` is typed for that event.
+   *
+   * @example
+   * ```typescript
+   * onAnalytics: {
+   *   widget_loaded: (event) => warehouse.insert('widget_loads', event),
+   *   share_triggered: (event) => warehouse.insert('shares', { channel: event.payload?.channel }),
+   * }
+   * ```
+   */
+  onAnalytics?: AnalyticsEventNameHandlers;
+
+  /**
+   * Handle analytics events whose name is not one of `AnalyticsEventTypes`,
+   * e.g. events added to Vortex after this SDK version.
+   * Runs before `onAnalyticsEvent`.
+   */
+  onUnknownAnalyticsEvent?: AnalyticsEventHandler;
+
+  /**
+   * Handle all analytics events (behavioral telemetry).
+   * Runs after any matching `onAnalytics` or `onUnknownAnalyticsEvent` handler.
    */
   onAnalyticsEvent?: AnalyticsEventHandler;
 
   /**
-   * Called when signature verification fails or handler throws.
-   * If not provided, errors are thrown to the framework.
+   * How the handlers matching one event run.
+   * - sequential: each handler is awaited before the next starts, in the documented order
+   * - parallel: all handlers start together, in the documented order
+   * Default: 'sequential'
+   */
+  dispatch?: 'sequential' | 'parallel';
+
+  /**
+   * Whether a failing handler stops the rest. When false, every matching
+   * handler runs and `handleEvent` then throws the failure, or a
+   * `VortexWebhookHandlerError` if several handlers failed. In parallel mode
+   * handlers have already started, so a failure only stops the wait for them.
+   * Default: true
+   */
+  stopOnError?: boolean;
+
+  /**
+   * Called when signature verification or payload validation fails, or a middleware or handler throws.
+   * `handleEvent` rethrows the error afterwards; the framework handler
+   * factories respond with 400 (verification) or 500 (handler) instead.
    */
   onError?: (error: Error) => void;
 }
 
+// ─── Dispatch ──────────────────────────────────────────────────────────
+
+type DispatchHandler = (event: VortexEvent) => void | Promise<void>;
+
+function toHandlerList<H>(handler: H | H[] | undefined): H[] {
+  if (!handler) return [];
+  return Array.isArray(handler) ? handler : [handler];
+}
+
+/** Length of the prefix a wildcard key matches, or -1 if it does not match the event type */
+function patternSpecificity(pattern: string, type: string): number {
+  if (pattern === '*') return 0;
+  if (!pattern.endsWith('.*')) return -1;
+  const prefix = pattern.slice(0, -1);
+  return type.startsWith(prefix) ? prefix.length : -1;
+}
+
+/** The handlers for a webhook event, in dispatch order */
+function webhookHandlersFor(event: VortexWebhookEvent, handlers: WebhookHandlers): DispatchHandler[] {
+  const on = (handlers.on ?? {}) as Record<string, DispatchHandler | DispatchHandler[] | undefined>;
+  const patterns = Object.keys(on)
+    .map((key) => ({ key, specificity: patternSpecificity(key, event.type) }))
+    .filter(({ specificity }) => specificity >= 0)
+    .sort((a, b) => b.specificity - a.specificity);
+
+  return [
+    ...toHandlerList(Object.prototype.hasOwnProperty.call(on, event.type) ? on[event.type] : undefined),
+    ...patterns.flatMap(({ key }) => toHandlerList(on[key])),
+    ...toHandlerList(handlers.onEvent as DispatchHandler | undefined),
+  ];
+}
+
+/** The handlers for an analytics event, in dispatch order */
+function analyticsHandlersFor(
+  event: VortexAnalyticsEvent,
+  handlers: WebhookHandlers,
+): DispatchHandler[] {
+  const nameHandler = isKnownAnalyticsEventType(event.name)
+    ? handlers.onAnalytics?.[event.name]
+    : handlers.onUnknownAnalyticsEvent;
+  return [
+    ...toHandlerList(nameHandler as DispatchHandler | undefined),
+    ...toHandlerList(handlers.onAnalyticsEvent as DispatchHandler | undefined),
+  ];
+}
+
+async function runHandlers(
+  event: VortexEvent,
+  list: DispatchHandler[],
+  handlers: WebhookHandlers,
+): Promise<void> {
+  const stopOnError = handlers.stopOnError ?? true;
+  const errors: unknown[] = [];
+
+  if (handlers.dispatch === 'parallel') {
+    // Wrap each call so a handler that throws synchronously cannot prevent the rest from starting
+    const running = list.map(async (handler) => handler(event));
+    if (stopOnError) {
+      await Promise.all(running);
+      return;
+    }
+    for (const result of await Promise.allSettled(running)) {
+      if (result.status === 'rejected') errors.push(result.reason);
+    }
+  } else {
+    for (const handler of list) {
+      try {
+        await handler(event);
+      } catch (err) {
+        if (stopOnError) throw err;
+        errors.push(err);
+      }
+    }
+  }
+
+  if (errors.length === 1) {
+    throw errors[0];
+  }
+  if (errors.length > 1) {
+    throw new VortexWebhookHandlerError(`${errors.length} webhook handlers failed`, errors);
+  }
+}
+
+/** Run the middleware chain, ending in `dispatch` with the (possibly transformed) event */
+function runMiddleware(
+  middleware: WebhookMiddleware[],
+  event: VortexEvent,
+  dispatch: (event: VortexEvent) => Promise<void>,
+): Promise<void> {
+  const call = async (index: number, current: VortexEvent): Promise<void> => {
+    if (index === middleware.length) {
+      return dispatch(current);
+    }
+    let called = false;
+    await middleware[index](current, async (next = current) => {
+      if (called) {
+        throw new Error('Webhook middleware called next() more than once');
+      }
+      called = true;
+      await call(index + 1, next);
+    });
+  };
+  return call(0, event);
+}
+
 // ─── Core Webhooks Class ───────────────────────────────────────────────
 
 export interface VortexWebhooksOptions {
-  /** The webhook signing secret from your Vortex dashboard */
-  secret: string;
+  /**
+   * The webhook signing secret from your Vortex dashboard. Pass an array
+   * while rotating secrets: signatures made with any of them are accepted.
+   */
+  secret: string | string[];
+  /**
+   * Maximum age, in seconds, of a timestamped signature accepted by
+   * `constructEvent`. Default: 300
+   */
+  toleranceSec?: number;
+  /**
+   * Accept legacy bare-hex signatures in `constructEvent`. They carry no
+   * timestamp, so a captured request can be replayed at any time. Set this
+   * to false once all your deliveries arrive with timestamped
+   * `t=...,v1=...` headers. Default: true
+   */
+  allowLegacySignatures?: boolean;
+  /**
+   * Records processed event IDs so `handleEvent` skips redelivered events.
+   * Without a store, handlers run for every delivery.
+   */
+  idempotencyStore?: WebhookIdempotencyStore;
+  /**
+   * Check each payload against the event schema in `constructEvent`.
+   * `true` or `'strict'` rejects unknown event types and fields;
+   * `'lenient'` keeps them and checks only the fields the SDK knows.
+   * Default: false (payloads are parsed without checks)
+   */
+  validate?: boolean | WebhookValidationMode;
+  /** Middleware to run around event dispatch, outermost first. `use()` appends to this list. */
+  middleware?: WebhookMiddleware[];
+}
+
+/**
+ * Result of `VortexWebhooks.verifySignatureDetailed`.
+ * `secretIndex` is the position of the matching secret in the `secret`
+ * option (always 0 when a single secret is configured).
+ */
+export type WebhookSignatureVerificationResult =
+  | { valid: true; secretIndex: number }
+  | { valid: false; secretIndex: null };
+
+/** Options for `VortexWebhooks.constructEvent` */
+export interface ConstructEventOptions {
+  /**
+   * Maximum difference, in seconds, between the signature timestamp and now.
+   * Overrides the `toleranceSec` the instance was created with.
+   */
+  toleranceSec?: number;
+  /** Payload validation for this call. Overrides the `validate` the instance was created with. */
+  validate?: boolean | WebhookValidationMode;
+}
+
+/** Options for `VortexWebhooks.signPayload` */
+export interface SignPayloadOptions {
+  /** Signature timestamp, in seconds since the epoch. Default: now */
+  timestamp?: number;
+}
+
+function validationMode(validate: boolean | WebhookValidationMode): WebhookValidationMode | null {
+  if (validate === true) return 'strict';
+  return validate || null;
+}
+
+function isKnownAnalyticsEventType(name: string): name is AnalyticsEventType {
+  return (ALL_ANALYTICS_EVENT_TYPES as string[]).includes(name);
+}
+
+function formatIssues(issues: WebhookPayloadIssue[]): string {
+  return issues.map(({ path, message }) => (path ? `${path} ${message}` : message)).join('; ');
 }
 
 /**
  * Core webhook verification and parsing.
  *
  * This class is framework-agnostic — use it directly or with
- * the framework-specific handler factories (Express, Next.js, Fastify).
+ * the framework-specific handler factories (Express, Next.js, Fastify),
+ * available from the `express`, `nextjs` and `fastify` subpath exports.
  *
  * @example
  * ```typescript
@@ -93,45 +486,154 @@ export interface VortexWebhooksOptions {
  *   secret: process.env.VORTEX_WEBHOOK_SECRET!,
  * });
  *
+ * // While rotating, accept both the new and the previous secret:
+ * const rotating = new VortexWebhooks({
+ *   secret: [process.env.VORTEX_WEBHOOK_SECRET!, process.env.VORTEX_WEBHOOK_SECRET_PREVIOUS!],
+ * });
+ *
  * // In any HTTP handler:
  * const event = webhooks.constructEvent(rawBody, signatureHeader);
  * ```
  */
 export class VortexWebhooks {
-  private readonly secret: string;
+  private readonly secrets: string[];
+  private readonly toleranceSec: number;
+  private readonly allowLegacySignatures: boolean;
+  private readonly idempotencyStore: WebhookIdempotencyStore | undefined;
+  private readonly validate: boolean | WebhookValidationMode;
+  private readonly middleware: WebhookMiddleware[];
 
   constructor(options: VortexWebhooksOptions) {
-    if (!options.secret) {
+    const secrets = Array.isArray(options.secret) ? options.secret : [options.secret];
+    if (secrets.length === 0 || secrets.some((secret) => !secret)) {
       throw new Error('VortexWebhooks requires a secret');
     }
-    this.secret = options.secret;
+    this.secrets = [...secrets];
+    this.toleranceSec = options.toleranceSec ?? DEFAULT_TOLERANCE_SEC;
+    assertValidTolerance(this.toleranceSec);
+    this.allowLegacySignatures = options.allowLegacySignatures ?? true;
+    this.idempotencyStore = options.idempotencyStore;
+    this.validate = options.validate ?? false;
+    this.middleware = [...(options.middleware ?? [])];
+  }
+
+  /**
+   * Add middleware around event dispatch. Middleware runs in registration
+   * order for every event `handleEvent` processes, and can log, filter,
+   * transform or enrich events before the handlers see them.
+   *
+   * @param middleware - The middleware to append
+   * @returns This instance, for chaining
+   *
+   * @example
+   * ```typescript
+   * webhooks
+   *   .use(async (event, next) => {
+   *     const start = Date.now();
+   *     await next();
+   *     metrics.timing('vortex.webhook', Date.now() - start);
+   *   })
+   *   .use(async (event, next) => {
+   *     // Ignore events from other environments
+   *     if (event.environmentId === process.env.VORTEX_ENVIRONMENT_ID) {
+   *       await next();
+   *     }
+   *   });
+   * ```
+   */
+  use(middleware: WebhookMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
   }
 
   /**
    * Verify the HMAC-SHA256 signature of an incoming webhook payload.
    *
+   * Accepts both the timestamped `t=...,v1=...` header format and the
+   * legacy bare-hex format. This checks the signature only; use
+   * `constructEvent` to also reject stale timestamps.
+   *
    * @param payload - The raw request body (string or Buffer)
    * @param signature - The value of the `X-Vortex-Signature` header
-   * @returns `true` if the signature is valid
+   * @returns `true` if the signature is valid for any configured secret
    */
   verifySignature(payload: string | Buffer, signature: string): boolean {
-    if (!signature) return false;
+    return this.verifySignatureDetailed(payload, signature).valid;
+  }
 
-    const expected = crypto
-      .createHmac('sha256', this.secret)
-      .update(payload)
-      .digest('hex');
+  /**
+   * Verify a webhook signature and report which configured secret matched.
+   *
+   * Every secret is checked in constant time, so the result does not leak
+   * which secret matched through timing. Use `secretIndex` to tell when an
+   * old secret has stopped matching and can be removed.
+   *
+   * @param payload - The raw request body (string or Buffer)
+   * @param signature - The value of the `X-Vortex-Signature` header
+   * @returns `{ valid: true, secretIndex }` on a match, otherwise `{ valid: false, secretIndex: null }`
+   *
+   * @example
+   * ```typescript
+   * const result = webhooks.verifySignatureDetailed(rawBody, signatureHeader);
+   * if (result.valid && result.secretIndex > 0) {
+   *   metrics.increment('vortex.webhooks.previous_secret');
+   * }
+   * ```
+   */
+  verifySignatureDetailed(
+    payload: string | Buffer,
+    signature: string,
+  ): WebhookSignatureVerificationResult {
+    if (!signature) return { valid: false, secretIndex: null };
 
-    // Timing-safe comparison to prevent timing attacks
-    try {
-      return crypto.timingSafeEqual(
-        Buffer.from(signature, 'utf8'),
-        Buffer.from(expected, 'utf8'),
-      );
-    } catch {
-      // Lengths differ — not equal
-      return false;
+    const { timestamp, signatures } = parseSignatureHeader(signature);
+
+    // Timing-safe comparison to prevent timing attacks. Check every secret and
+    // candidate without returning early, so timing does not reveal the match.
+    let secretIndex: number | null = null;
+    for (const [index, secret] of this.secrets.entries()) {
+      const expected = Buffer.from(computeSignature(secret, payload, timestamp), 'utf8');
+      for (const candidate of signatures) {
+        const actual = Buffer.from(candidate, 'utf8');
+        // Lengths differ — not equal
+        if (
+          actual.length === expected.length &&
+          crypto.timingSafeEqual(actual, expected) &&
+          secretIndex === null
+        ) {
+          secretIndex = index;
+        }
+      }
     }
+    return secretIndex === null ? { valid: false, secretIndex: null } : { valid: true, secretIndex };
+  }
+
+  /**
+   * Sign a payload the way Vortex does, producing a timestamped
+   * `X-Vortex-Signature` header value. Uses the first configured secret.
+   *
+   * Intended for tests: send the payload and header to your webhook endpoint
+   * to exercise the real `constructEvent` path.
+   *
+   * @param payload - The raw request body to sign
+   * @param options - Optional signature timestamp
+   * @returns A header value of the form `t=<unix seconds>,v1=<hex digest>`
+   *
+   * @example
+   * ```typescript
+   * const payload = JSON.stringify(event);
+   * await request(app)
+   *   .post('/webhooks/vortex')
+   *   .set('x-vortex-signature', webhooks.signPayload(payload))
+   *   .send(payload);
+   * ```
+   */
+  signPayload(payload: string | Buffer, options?: SignPayloadOptions): string {
+    const timestamp = options?.timestamp ?? Math.floor(Date.now() / 1000);
+    if (!Number.isInteger(timestamp) || timestamp < 0) {
+      throw new Error(`Invalid timestamp value: "${timestamp}". Must be a non-negative integer.`);
+    }
+    return `t=${timestamp},v1=${computeSignature(this.secrets[0], payload, timestamp)}`;
   }
 
   /**
@@ -144,8 +646,14 @@ export class VortexWebhooks {
    *   raw body, not a parsed JSON object — signature verification requires
    *   the exact bytes that were signed.
    * @param signature - The value of the `X-Vortex-Signature` header
+   * @param options - Optional timestamp tolerance and payload validation for this call
    * @returns A typed `VortexWebhookEvent` or `VortexAnalyticsEvent`
-   * @throws {VortexWebhookSignatureError} If the signature is invalid
+   * @throws {VortexWebhookSignatureError} If the signature is invalid, or is
+   *   a legacy bare-hex signature and `allowLegacySignatures` is false
+   * @throws {VortexWebhookTimestampError} If a timestamped signature is outside
+   *   the tolerance window
+   * @throws {VortexWebhookPayloadError} If validation is enabled and the payload
+   *   does not match the event schema
    *
    * @example
    * ```typescript
@@ -158,15 +666,54 @@ export class VortexWebhooks {
    * }
    * ```
    */
-  constructEvent(payload: string | Buffer, signature: string): VortexEvent {
+  constructEvent(
+    payload: string | Buffer,
+    signature: string,
+    options?: ConstructEventOptions,
+  ): VortexEvent {
     if (!this.verifySignature(payload, signature)) {
       throw new VortexWebhookSignatureError(
         'Webhook signature verification failed. Ensure you are using the raw request body and the correct signing secret.',
       );
     }
 
+    // Legacy bare-hex signatures carry no timestamp and are accepted during
+    // migration unless allowLegacySignatures is off
+    const { timestamp } = parseSignatureHeader(signature);
+    if (timestamp === null && !this.allowLegacySignatures) {
+      throw new VortexWebhookSignatureError(
+        'Webhook signature has no timestamp. Legacy bare-hex signatures are disabled (allowLegacySignatures: false).',
+      );
+    }
+    if (timestamp !== null) {
+      const toleranceSec = options?.toleranceSec ?? this.toleranceSec;
+      assertValidTolerance(toleranceSec);
+      if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSec) {
+        throw new VortexWebhookTimestampError(
+          `Webhook timestamp is outside the ${toleranceSec}s tolerance window. The request may be a replay.`,
+          timestamp,
+          toleranceSec,
+        );
+      }
+    }
+
     const body = typeof payload === 'string' ? payload : payload.toString('utf8');
-    const parsed = JSON.parse(body);
+    const mode = validationMode(options?.validate ?? this.validate);
+    if (!mode) {
+      return JSON.parse(body) as VortexEvent;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch (err) {
+      const issues = [{ path: '', message: `is not valid JSON: ${(err as Error).message}` }];
+      throw new VortexWebhookPayloadError(`Invalid webhook payload: ${formatIssues(issues)}`, issues);
+    }
+    const issues = validateWebhookPayload(parsed, mode);
+    if (issues.length > 0) {
+      throw new VortexWebhookPayloadError(`Invalid webhook payload: ${formatIssues(issues)}`, issues);
+    }
     return parsed as VortexEvent;
   }
 
@@ -176,24 +723,33 @@ export class VortexWebhooks {
    * Framework-specific handler factories call this internally.
    * You can also call it directly if building a custom integration.
    *
+   * Middleware added with `use()` runs first, in registration order. Matching
+   * handlers then run in the order documented on `WebhookHandlers.on`,
+   * sequentially unless `handlers.dispatch` is 'parallel'.
+   *
+   * With an `idempotencyStore`, events whose ID was already processed are
+   * skipped, and an event is recorded only after its middleware and handlers
+   * resolve — a handler that throws leaves the event to be processed on
+   * redelivery. Events a middleware chose to skip are recorded too.
+   *
    * @param event - A parsed and verified event
    * @param handlers - The handler configuration
    */
   async handleEvent(event: VortexEvent, handlers: WebhookHandlers): Promise<void> {
     try {
-      if (isWebhookEvent(event)) {
-        // Run type-specific handler first
-        const typeHandler = handlers.on?.[event.type];
-        if (typeHandler) {
-          await typeHandler(event);
-        }
-        // Then run the general webhook handler
-        if (handlers.onEvent) {
-          await handlers.onEvent(event);
-        }
-      } else if (isAnalyticsEvent(event) && handlers.onAnalyticsEvent) {
-        await handlers.onAnalyticsEvent(event);
+      if (this.idempotencyStore && (await this.idempotencyStore.has(event.id))) {
+        return;
       }
+
+      await runMiddleware(this.middleware, event, async (current) => {
+        if (isWebhookEvent(current)) {
+          await runHandlers(current, webhookHandlersFor(current, handlers), handlers);
+        } else if (isAnalyticsEvent(current)) {
+          await runHandlers(current, analyticsHandlersFor(current, handlers), handlers);
+        }
+      });
+
+      await this.idempotencyStore?.add(event.id);
     } catch (err) {
       if (handlers.onError) {
         handlers.onError(err as Error);
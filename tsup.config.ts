@@ -2,10 +2,18 @@ import { defineConfig } from 'tsup';
 import pkg from './package.json';
 
 export default defineConfig((options) => ({
-  entry: ['src/index.ts'],
+  entry: [
+    'src/index.ts',
+    'src/testing.ts',
+    'src/frameworks/express.ts',
+    'src/frameworks/fastify.ts',
+    'src/frameworks/nextjs.ts',
+  ],
   format: ['cjs', 'esm'],
   dts: false, // Generate types separately with tsc to work around TypeScript deprecation warnings during tsup's dts generation
-  splitting: false,
+  // Put modules shared by several entries (the package root imported by the subpath
+  // entries) in common chunks, so classes such as the webhook errors have one identity
+  splitting: true,
   sourcemap: true,
   clean: !options.watch, // Don't wipe .d.ts files generated by tsc in watch/dev mode
   outDir: 'dist',